@@ -0,0 +1,180 @@
+import pc from "picocolors";
+import type { ProjectStats, TokenUsage, TimeBuckets } from "./parser.js";
+import { addToBucket, bucketStart } from "./parser.js";
+import { calculateBucketsCost, formatCost, formatTokens, formatModelMix } from "./pricing.js";
+import { formatDuration } from "./sessions.js";
+import type { TimeOptions } from "./timezone.js";
+import { dayOf, formatDateTime, formatTime } from "./timezone.js";
+
+// Subscription limits reset in rolling windows of this length
+const BLOCK_MS = 5 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Messages from the first one (floored to the hour) up to 5 hours later
+export interface BillingBlock {
+  start: Date;
+  end: Date;
+  buckets: TimeBuckets;
+  models: Record<string, TokenUsage>;
+  tokens: number; // input + output, what the limit counts
+  cost: number;
+}
+
+export interface BurnRate {
+  tokensPerMinute: number;
+  costPerHour: number;
+  projectedTokens: number; // at block end
+  projectedCost: number;
+  limitAt: Date | null; // when the limit is reached at this rate
+}
+
+// Blocks start on whole hours, so quarter-hour buckets never straddle two blocks
+export function getBlocks(stats: ProjectStats[]): BillingBlock[] {
+  const slots: TimeBuckets = {};
+  for (const s of stats) {
+    for (const record of s.records) {
+      for (const [slot, models] of Object.entries(record.buckets)) {
+        if (!slots[slot]) slots[slot] = {};
+        for (const [model, usage] of Object.entries(models)) {
+          addToBucket(slots[slot], model, usage);
+        }
+      }
+    }
+  }
+
+  const blocks: BillingBlock[] = [];
+  let block: BillingBlock | null = null;
+
+  for (const slot of Object.keys(slots).sort()) {
+    const at = bucketStart(slot);
+    if (!block || at >= block.end) {
+      const start = new Date(Math.floor(at.getTime() / HOUR_MS) * HOUR_MS);
+      block = { start, end: new Date(start.getTime() + BLOCK_MS), buckets: {}, models: {}, tokens: 0, cost: 0 };
+      blocks.push(block);
+    }
+
+    block.buckets[slot] = slots[slot];
+    for (const [model, usage] of Object.entries(slots[slot])) {
+      addToBucket(block.models, model, usage);
+      block.tokens += usage.inputTokens + usage.outputTokens;
+    }
+  }
+
+  for (const b of blocks) {
+    b.cost = calculateBucketsCost(b.buckets);
+  }
+  return blocks.filter((b) => b.tokens > 0 || b.cost > 0);
+}
+
+// Token count like 500000, 500k or 1.5m, or "max" for the largest past block
+export function parseTokenLimit(value: string): number | "max" {
+  const v = value.trim().toLowerCase();
+  if (v === "max") return "max";
+  const match = v.match(/^(\d+(?:\.\d+)?)([km]?)$/);
+  const tokens = match ? Number(match[1]) * (match[2] === "m" ? 1_000_000 : match[2] === "k" ? 1_000 : 1) : NaN;
+  if (!Number.isFinite(tokens) || tokens <= 0) {
+    throw new Error(`Invalid token limit "${value}", use a number like 500000 or 500k, or max`);
+  }
+  return Math.round(tokens);
+}
+
+export function isActive(block: BillingBlock, now: Date = new Date()): boolean {
+  return now >= block.start && now < block.end;
+}
+
+// Largest block so far, as a stand-in limit when none is configured
+export function maxBlockTokens(blocks: BillingBlock[], now: Date = new Date()): number {
+  return Math.max(0, ...blocks.filter((b) => !isActive(b, now)).map((b) => b.tokens));
+}
+
+// Rate since the block started, projected to its end
+export function getBurnRate(block: BillingBlock, limit: number | undefined, now: Date = new Date()): BurnRate {
+  const elapsedMinutes = Math.max(1, (now.getTime() - block.start.getTime()) / 60_000);
+  const remainingMinutes = Math.max(0, (block.end.getTime() - now.getTime()) / 60_000);
+  const tokensPerMinute = block.tokens / elapsedMinutes;
+  const costPerMinute = block.cost / elapsedMinutes;
+
+  let limitAt: Date | null = null;
+  if (limit && tokensPerMinute > 0) {
+    const minutes = Math.max(0, (limit - block.tokens) / tokensPerMinute);
+    if (minutes <= remainingMinutes) limitAt = new Date(now.getTime() + minutes * 60_000);
+  }
+
+  return {
+    tokensPerMinute,
+    costPerHour: costPerMinute * 60,
+    projectedTokens: block.tokens + tokensPerMinute * remainingMinutes,
+    projectedCost: block.cost + costPerMinute * remainingMinutes,
+    limitAt,
+  };
+}
+
+function padRight(str: string, len: number): string {
+  return str.length >= len ? str.slice(0, len) : str + " ".repeat(len - str.length);
+}
+
+function usageBar(tokens: number, limit: number): string {
+  const ratio = tokens / limit;
+  const barLen = Math.min(20, Math.round(ratio * 20));
+  const color = ratio >= 1 ? pc.red : ratio >= 0.8 ? pc.yellow : pc.green;
+  return color("█".repeat(barLen)) + pc.dim("░".repeat(20 - barLen)) + ` ${Math.round(ratio * 100)}%`;
+}
+
+// Block end, with the day only when it differs from the start
+function formatEnd(block: BillingBlock, time: TimeOptions): string {
+  if (dayOf(block.start, time) === dayOf(block.end, time)) return formatTime(block.end, time);
+  return formatDateTime(block.end, time).slice(5);
+}
+
+export function showBlocks(blocks: BillingBlock[], limit: number | undefined, time: TimeOptions, now: Date = new Date()): void {
+  if (blocks.length === 0) {
+    console.log(pc.yellow("No usage found"));
+    return;
+  }
+
+  const width = limit ? 110 : 84;
+  console.log(pc.bold(`5-hour blocks (${time.timeZone})`));
+  console.log(pc.dim("-".repeat(width)));
+  console.log(
+    pc.bold(
+      `  ${padRight("START", 17)} ${padRight("END", 12)} ${padRight("TOKENS", 10)} ${padRight("COST", 10)} ${padRight("MODELS", 28)}${limit ? " USAGE" : ""}`
+    )
+  );
+  console.log(pc.dim("-".repeat(width)));
+
+  for (const block of blocks) {
+    const active = isActive(block, now);
+    const marker = active ? pc.green("●") : " ";
+    const usage = limit ? ` ${usageBar(block.tokens, limit)}` : "";
+    const line = `${marker} ${padRight(formatDateTime(block.start, time), 17)} ${padRight(formatEnd(block, time), 12)} ${padRight(formatTokens(block.tokens), 10)} ${pc.green(padRight(formatCost(block.cost), 10))} ${pc.dim(padRight(formatModelMix(block.models), 28))}${usage}`;
+    console.log(active ? pc.bold(line) : line);
+  }
+
+  console.log(pc.dim("-".repeat(width)));
+
+  const current = blocks.find((b) => isActive(b, now));
+  if (!current) {
+    console.log(pc.dim("No active block"));
+    return;
+  }
+
+  const rate = getBurnRate(current, limit, now);
+  const left = formatDuration(current.end.getTime() - now.getTime());
+  const share = limit ? pc.dim(` (${Math.round((current.tokens / limit) * 100)}% of ${formatTokens(limit)})`) : "";
+
+  console.log();
+  console.log(pc.bold(`Active block ${formatTime(current.start, time)}-${formatTime(current.end, time)}`) + pc.dim(` ${left} left`));
+  console.log(`  Tokens:       ${formatTokens(current.tokens)}${share}`);
+  console.log(`  Cost:         ${pc.green(formatCost(current.cost))}`);
+  console.log(`  Burn rate:    ${formatTokens(Math.round(rate.tokensPerMinute))} tokens/min, ${formatCost(rate.costPerHour)}/h`);
+  console.log(`  Projected:    ${formatTokens(Math.round(rate.projectedTokens))} tokens, ${formatCost(rate.projectedCost)} by ${formatTime(current.end, time)}`);
+
+  if (!limit) return;
+  if (current.tokens >= limit) {
+    console.log(`  Limit:        ${pc.red("reached")}`);
+  } else if (rate.limitAt) {
+    console.log(`  Limit:        ${pc.yellow(`reached around ${formatTime(rate.limitAt, time)}`)}`);
+  } else {
+    console.log(`  Limit:        ${pc.green("not reached at this rate")}`);
+  }
+}
@@ -0,0 +1,219 @@
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { spawn } from "node:child_process";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import pc from "picocolors";
+import type { ProjectStats } from "./parser.js";
+import type { Config } from "./config.js";
+import { getCostEntries } from "./cost.js";
+import { formatCost } from "./pricing.js";
+import type { TimeOptions } from "./timezone.js";
+import { dayProgress, daysInMonth, today } from "./timezone.js";
+
+const CCLP_DIR = join(homedir(), ".cclp");
+const BUDGET_STATE_FILE = join(CCLP_DIR, "budget-state.json");
+
+const DEFAULT_THRESHOLDS = [80, 100];
+// Warn in list, picker and open from this share of the budget on
+const NEAR_BUDGET = 0.8;
+
+export type BudgetLevel = "ok" | "near" | "over";
+
+export interface BudgetStatus {
+  name: string; // project name, or "all projects"
+  path: string | null; // null for the global budget
+  budget: number;
+  spent: number; // this month so far
+  projected: number; // month-end at the current daily rate
+  ratio: number; // spent / budget
+  level: BudgetLevel;
+}
+
+// Thresholds already reported, so the hook runs once per crossing per month
+interface BudgetState {
+  fired: Record<string, string>; // "<month>|<path or *>|<threshold>" -> ISO timestamp
+}
+
+async function ensureDir(): Promise<void> {
+  try {
+    await mkdir(CCLP_DIR, { recursive: true });
+  } catch {
+    // exists
+  }
+}
+
+async function loadState(): Promise<BudgetState> {
+  try {
+    const content = await readFile(BUDGET_STATE_FILE, "utf-8");
+    return JSON.parse(content);
+  } catch {
+    return { fired: {} };
+  }
+}
+
+async function saveState(state: BudgetState): Promise<void> {
+  await ensureDir();
+  await writeFile(BUDGET_STATE_FILE, JSON.stringify(state, null, 2), "utf-8");
+}
+
+// Months follow the configured time zone
+function currentMonth(time: TimeOptions, now: Date = new Date()): string {
+  return today(time, now).slice(0, 7);
+}
+
+function monthSpend(stats: ProjectStats[], month: string, time: TimeOptions): number {
+  const range = { since: `${month}-01`, until: `${month}-31` };
+  return getCostEntries(stats, range, time).reduce((sum, e) => sum + e.cost, 0);
+}
+
+function toStatus(name: string, path: string | null, budget: number, spent: number, time: TimeOptions, now: Date): BudgetStatus {
+  const day = today(time, now);
+  const elapsed = Number(day.slice(8, 10)) - 1 + dayProgress(time, now);
+  const projected = elapsed > 0 ? (spent / elapsed) * daysInMonth(day.slice(0, 7)) : spent;
+  const ratio = budget > 0 ? spent / budget : 0;
+  const level: BudgetLevel = ratio >= 1 ? "over" : ratio >= NEAR_BUDGET || projected > budget ? "near" : "ok";
+  return { name, path, budget, spent, projected, ratio, level };
+}
+
+// Global status first, then every project with a budget
+export function getBudgetStatuses(
+  stats: ProjectStats[],
+  config: Config,
+  time: TimeOptions,
+  now: Date = new Date()
+): BudgetStatus[] {
+  const budget = config.budget;
+  const month = currentMonth(time, now);
+  const statuses: BudgetStatus[] = [];
+
+  if (budget?.monthly !== undefined) {
+    statuses.push(toStatus("all projects", null, budget.monthly, monthSpend(stats, month, time), time, now));
+  }
+
+  for (const [path, amount] of Object.entries(budget?.projects ?? {})) {
+    const project = stats.find((s) => s.project.path === path);
+    const spent = project ? monthSpend([project], month, time) : 0;
+    statuses.push(toStatus(project?.project.name ?? path, path, amount, spent, time, now));
+  }
+
+  return statuses;
+}
+
+function padRight(str: string, len: number): string {
+  return str.length >= len ? str.slice(0, len) : str + " ".repeat(len - str.length);
+}
+
+function levelColor(level: BudgetLevel): (s: string) => string {
+  if (level === "over") return pc.red;
+  if (level === "near") return pc.yellow;
+  return pc.green;
+}
+
+export function showBudgets(statuses: BudgetStatus[], time: TimeOptions): void {
+  if (statuses.length === 0) {
+    console.log(pc.dim("No budgets set. Run: cclp budget set <amount> [--project <name>]"));
+    return;
+  }
+
+  console.log(pc.bold(`Monthly budgets (${currentMonth(time)})`));
+  console.log(pc.dim("-".repeat(80)));
+  console.log(
+    pc.bold(`${padRight("SCOPE", 24)} ${padRight("BUDGET", 10)} ${padRight("SPENT", 10)} ${padRight("USED", 6)} ${padRight("PROJECTED", 10)} BAR`)
+  );
+  console.log(pc.dim("-".repeat(80)));
+
+  for (const s of statuses) {
+    const color = levelColor(s.level);
+    const barLen = Math.min(20, Math.round(s.ratio * 20));
+    const bar = color("█".repeat(barLen)) + pc.dim("░".repeat(20 - barLen));
+    const projected = s.projected > s.budget ? pc.red(padRight(formatCost(s.projected), 10)) : padRight(formatCost(s.projected), 10);
+
+    console.log(
+      `${padRight(s.name, 24)} ${padRight(formatCost(s.budget), 10)} ${color(padRight(formatCost(s.spent), 10))} ${padRight(`${Math.round(s.ratio * 100)}%`, 6)} ${projected} ${bar}`
+    );
+  }
+
+  console.log(pc.dim("-".repeat(80)));
+}
+
+// Short warning for list, picker and open; empty when within budget
+export function formatBudgetWarning(status: BudgetStatus | undefined): string {
+  if (!status || status.level === "ok") return "";
+  const used = `${Math.round(status.ratio * 100)}% of ${formatCost(status.budget)}`;
+  if (status.level === "over") return pc.red(`over budget (${used})`);
+  if (status.ratio >= NEAR_BUDGET) return pc.yellow(`near budget (${used})`);
+  return pc.yellow(`projected ${formatCost(status.projected)} of ${formatCost(status.budget)}`);
+}
+
+export function showBudgetWarnings(statuses: BudgetStatus[]): void {
+  for (const s of statuses) {
+    const warning = formatBudgetWarning(s);
+    if (warning) console.log(`${pc.bold(s.name)}: ${warning}`);
+  }
+}
+
+export function budgetsByPath(statuses: BudgetStatus[]): Map<string, BudgetStatus> {
+  const byPath = new Map<string, BudgetStatus>();
+  for (const s of statuses) {
+    if (s.path) byPath.set(s.path, s);
+  }
+  return byPath;
+}
+
+// Run the hook once for every threshold crossed this month, returns how many fired
+export async function checkBudgetThresholds(
+  statuses: BudgetStatus[],
+  config: Config,
+  time: TimeOptions
+): Promise<number> {
+  const hook = config.budget?.hook;
+  if (!hook || statuses.length === 0) return 0;
+
+  const thresholds = config.budget?.thresholds ?? DEFAULT_THRESHOLDS;
+  const month = currentMonth(time);
+  const state = await loadState();
+  let fired = 0;
+
+  for (const status of statuses) {
+    for (const threshold of thresholds) {
+      if (status.ratio * 100 < threshold) continue;
+      const key = `${month}|${status.path ?? "*"}|${threshold}`;
+      if (state.fired[key]) continue;
+
+      runHook(hook, status, threshold);
+      state.fired[key] = new Date().toISOString();
+      fired++;
+    }
+  }
+
+  if (fired > 0) {
+    // Entries from past months never match again
+    for (const key of Object.keys(state.fired)) {
+      if (!key.startsWith(month)) delete state.fired[key];
+    }
+    await saveState(state);
+  }
+  return fired;
+}
+
+function runHook(hook: string, status: BudgetStatus, threshold: number): void {
+  const child = spawn(hook, {
+    shell: true,
+    stdio: "ignore",
+    detached: true,
+    env: {
+      ...process.env,
+      CCLP_BUDGET_SCOPE: status.path ? "project" : "global",
+      CCLP_BUDGET_PROJECT: status.path ?? "",
+      CCLP_BUDGET_NAME: status.name,
+      CCLP_BUDGET_AMOUNT: status.budget.toFixed(2),
+      CCLP_BUDGET_SPENT: status.spent.toFixed(2),
+      CCLP_BUDGET_PROJECTED: status.projected.toFixed(2),
+      CCLP_BUDGET_THRESHOLD: String(threshold),
+    },
+  });
+  child.on("error", () => {
+    // hook failures never block cclp
+  });
+  child.unref();
+}
@@ -1,30 +1,43 @@
-import { readFile, writeFile, mkdir, stat } from "node:fs/promises";
+import { readFile, writeFile, mkdir, readdir, stat, open } from "node:fs/promises";
 import { join } from "node:path";
 import { homedir } from "node:os";
-import type { ProjectStats } from "./parser.js";
+import type { ProjectStats, SessionRecord, ParsedSession } from "./parser.js";
+import { parseSession, buildProjectStats } from "./parser.js";
+import type { Project } from "./scanner.js";
+import { getProjectDir } from "./scanner.js";
 
 const CCLP_DIR = join(homedir(), ".cclp");
 const CACHE_FILE = join(CCLP_DIR, "cache.json");
-const PROJECTS_DIR = join(homedir(), ".claude", "projects");
-const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const CACHE_VERSION = 10;
 
+// One entry per session file, keyed by absolute path
 interface CacheData {
-  timestamp: number;
-  projectsDirMtime: number;
-  stats: SerializedStats[];
+  version: number;
+  files: Record<string, CachedSession>;
 }
 
-interface SerializedStats {
-  project: { name: string; path: string; encodedPath: string };
-  sessions: number;
+interface CachedSession {
+  size: number;
+  mtimeMs: number;
+  ino: number; // changes when the file is replaced rather than appended to
+  offset: number;
+  seen: string[];
+  record: SerializedRecord;
+}
+
+type SerializedRecord = Omit<SessionRecord, "firstActivity" | "lastActivity"> & {
   firstActivity: string | null;
   lastActivity: string | null;
-  usage: {
-    inputTokens: number;
-    outputTokens: number;
-    cacheCreationInputTokens: number;
-    cacheReadInputTokens: number;
-  };
+};
+
+export interface LoadOptions {
+  useCache?: boolean; // false re-parses every file
+  raw?: boolean; // skip usage dedup; bypasses the cache, which only holds deduplicated data
+}
+
+export interface LoadResult {
+  stats: ProjectStats[];
+  fromCache: boolean; // true when no session file needed parsing
 }
 
 async function ensureDir(): Promise<void> {
@@ -35,65 +48,133 @@ async function ensureDir(): Promise<void> {
   }
 }
 
-async function getProjectsDirMtime(): Promise<number> {
+function serializeRecord(r: SessionRecord): SerializedRecord {
+  return {
+    ...r,
+    firstActivity: r.firstActivity?.toISOString() ?? null,
+    lastActivity: r.lastActivity?.toISOString() ?? null,
+  };
+}
+
+function deserializeRecord(r: SerializedRecord): SessionRecord {
+  return {
+    ...r,
+    firstActivity: r.firstActivity ? new Date(r.firstActivity) : null,
+    lastActivity: r.lastActivity ? new Date(r.lastActivity) : null,
+  };
+}
+
+async function loadCacheData(): Promise<CacheData> {
   try {
-    const s = await stat(PROJECTS_DIR);
-    return s.mtimeMs;
+    const content = await readFile(CACHE_FILE, "utf-8");
+    const data: CacheData = JSON.parse(content);
+    if (data.version === CACHE_VERSION) return data;
   } catch {
-    return 0;
+    // missing or corrupt
   }
+  return { version: CACHE_VERSION, files: {} };
 }
 
-function serialize(stats: ProjectStats[]): SerializedStats[] {
-  return stats.map((s) => ({
-    project: s.project,
-    sessions: s.sessions,
-    firstActivity: s.firstActivity?.toISOString() ?? null,
-    lastActivity: s.lastActivity?.toISOString() ?? null,
-    usage: s.usage,
-  }));
+// Appends only ever land after a newline, anything else means the file was rewritten
+async function endsLineAt(file: string, offset: number): Promise<boolean> {
+  if (offset === 0) return true;
+  const handle = await open(file, "r");
+  try {
+    const buf = Buffer.alloc(1);
+    await handle.read(buf, 0, 1, offset - 1);
+    return buf[0] === 0x0a;
+  } finally {
+    await handle.close();
+  }
 }
 
-function deserialize(data: SerializedStats[]): ProjectStats[] {
-  return data.map((s) => ({
-    project: s.project,
-    sessions: s.sessions,
-    firstActivity: s.firstActivity ? new Date(s.firstActivity) : null,
-    lastActivity: s.lastActivity ? new Date(s.lastActivity) : null,
-    usage: s.usage,
-  }));
+async function loadSession(
+  file: string,
+  id: string,
+  cached: CachedSession | undefined,
+  raw: boolean
+): Promise<{ entry: CachedSession; parsed: boolean }> {
+  const s = await stat(file);
+
+  if (cached && cached.ino === s.ino && cached.size === s.size && cached.mtimeMs === s.mtimeMs) {
+    return { entry: cached, parsed: false };
+  }
+
+  let previous: ParsedSession | undefined;
+  if (cached && cached.ino === s.ino && s.size > cached.size && (await endsLineAt(file, cached.offset))) {
+    previous = { record: deserializeRecord(cached.record), offset: cached.offset, seen: cached.seen };
+  }
+
+  const { record, offset, seen } = await parseSession(file, id, previous, { raw });
+  return {
+    entry: { size: s.size, mtimeMs: s.mtimeMs, ino: s.ino, offset, seen, record: serializeRecord(record) },
+    parsed: true,
+  };
 }
 
-export async function getCached(): Promise<ProjectStats[] | null> {
-  try {
-    const content = await readFile(CACHE_FILE, "utf-8");
-    const data: CacheData = JSON.parse(content);
+export async function loadProjectStats(
+  projects: Project[],
+  roots: string[],
+  options: LoadOptions = {}
+): Promise<LoadResult> {
+  const { raw = false } = options;
+  const useCache = options.useCache !== false && !raw;
+  const data = raw ? { version: CACHE_VERSION, files: {} } : await loadCacheData();
+  const files: Record<string, CachedSession> = {};
+  let parsedCount = 0;
 
-    // Check TTL
-    if (Date.now() - data.timestamp > CACHE_TTL_MS) {
-      return null;
-    }
+  const stats = await Promise.all(
+    projects.map(async (project) => {
+      const projectDir = getProjectDir(project);
+      const records: SessionRecord[] = [];
+
+      let jsonlFiles: string[] = [];
+      try {
+        const entries = await readdir(projectDir);
+        jsonlFiles = entries.filter((f) => f.endsWith(".jsonl"));
+      } catch {
+        // Error reading project
+      }
+
+      for (const name of jsonlFiles) {
+        const file = join(projectDir, name);
+        try {
+          const { entry, parsed } = await loadSession(
+            file,
+            name.slice(0, -".jsonl".length),
+            useCache ? data.files[file] : undefined,
+            raw
+          );
+          files[file] = entry;
+          if (parsed) parsedCount++;
+          records.push(deserializeRecord(entry.record));
+        } catch (err) {
+          // File vanished mid-scan; anything else would silently drop a session
+          if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+        }
+      }
+
+      return buildProjectStats(project, records);
+    })
+  );
 
-    // Check if projects dir changed
-    const currentMtime = await getProjectsDirMtime();
-    if (currentMtime !== data.projectsDirMtime) {
-      return null;
+  // Keep entries from roots not scanned this run; deleted files are evicted
+  let evicted = false;
+  for (const [file, entry] of Object.entries(data.files)) {
+    if (files[file]) continue;
+    if (roots.some((root) => file.startsWith(root + "/"))) {
+      evicted = true;
+    } else {
+      files[file] = entry;
     }
+  }
 
-    return deserialize(data.stats);
-  } catch {
-    return null;
+  if (!raw && (parsedCount > 0 || evicted || !useCache)) {
+    await ensureDir();
+    await writeFile(CACHE_FILE, JSON.stringify({ version: CACHE_VERSION, files }), "utf-8");
   }
-}
 
-export async function setCache(stats: ProjectStats[]): Promise<void> {
-  await ensureDir();
-  const data: CacheData = {
-    timestamp: Date.now(),
-    projectsDirMtime: await getProjectsDirMtime(),
-    stats: serialize(stats),
-  };
-  await writeFile(CACHE_FILE, JSON.stringify(data), "utf-8");
+  return { stats, fromCache: parsedCount === 0 };
 }
 
 export async function clearCache(): Promise<boolean> {
@@ -5,12 +5,32 @@ import { homedir } from "node:os";
 const CCLP_DIR = join(homedir(), ".cclp");
 const CONFIG_FILE = join(CCLP_DIR, "config.json");
 
+export interface LaunchProfile {
+  args?: string[]; // extra claude args
+  env?: Record<string, string>;
+  model?: string; // passed as --model
+  binary?: string; // claude executable, default "claude"
+}
+
+export interface BudgetConfig {
+  monthly?: number; // global monthly budget (USD)
+  projects?: Record<string, number>; // project path -> monthly budget (USD)
+  thresholds?: number[]; // percentages that trigger the hook, default [80, 100]
+  hook?: string; // shell command run when a threshold is crossed
+}
+
 export interface Config {
   defaultDays?: number;
   defaultModel?: string;
   archived?: string[]; // project paths to hide
   projectBaseDir?: string; // base dir for new projects
   telemetry?: boolean; // opt-out of anonymous usage tracking
+  dataRoots?: string[]; // Claude projects dirs to scan (default ~/.claude/projects)
+  profiles?: Record<string, LaunchProfile>; // project path -> launch profile
+  budget?: BudgetConfig;
+  timeZone?: string; // IANA zone for day, week and month buckets (default: system zone)
+  weekStart?: string; // day name weeks start on (default: monday)
+  blockTokenLimit?: number | "max"; // tokens per 5-hour block, "max" = largest past block
 }
 
 async function ensureDir(): Promise<void> {
@@ -52,6 +72,28 @@ export async function unarchiveProject(path: string): Promise<void> {
   }
 }
 
+// Carry archive state, launch profile and budget over to a moved project
+export async function renameProjectPath(oldPath: string, newPath: string): Promise<void> {
+  const config = await loadConfig();
+  let changed = false;
+  if (config.archived?.includes(oldPath)) {
+    config.archived = config.archived.map((p) => (p === oldPath ? newPath : p));
+    changed = true;
+  }
+  if (config.profiles?.[oldPath]) {
+    config.profiles[newPath] = config.profiles[oldPath];
+    delete config.profiles[oldPath];
+    changed = true;
+  }
+  const projectBudgets = config.budget?.projects;
+  if (projectBudgets?.[oldPath] !== undefined) {
+    projectBudgets[newPath] = projectBudgets[oldPath];
+    delete projectBudgets[oldPath];
+    changed = true;
+  }
+  if (changed) await saveConfig(config);
+}
+
 export function filterArchived<T extends { project: { path: string } }>(
   stats: T[],
   config: Config
@@ -71,6 +113,46 @@ export async function getProjectBaseDir(): Promise<string | undefined> {
   return config.projectBaseDir;
 }
 
+export async function setDefaultModel(model: string | undefined): Promise<void> {
+  const config = await loadConfig();
+  if (model) {
+    config.defaultModel = model;
+  } else {
+    delete config.defaultModel;
+  }
+  await saveConfig(config);
+}
+
+export async function setTimeZone(zone: string | undefined): Promise<void> {
+  const config = await loadConfig();
+  if (zone) {
+    config.timeZone = zone;
+  } else {
+    delete config.timeZone;
+  }
+  await saveConfig(config);
+}
+
+export async function setWeekStart(day: string | undefined): Promise<void> {
+  const config = await loadConfig();
+  if (day) {
+    config.weekStart = day;
+  } else {
+    delete config.weekStart;
+  }
+  await saveConfig(config);
+}
+
+export async function setBlockTokenLimit(limit: number | "max" | undefined): Promise<void> {
+  const config = await loadConfig();
+  if (limit) {
+    config.blockTokenLimit = limit;
+  } else {
+    delete config.blockTokenLimit;
+  }
+  await saveConfig(config);
+}
+
 export async function setTelemetry(enabled: boolean): Promise<void> {
   const config = await loadConfig();
   config.telemetry = enabled;
@@ -81,3 +163,88 @@ export async function isTelemetryEnabled(): Promise<boolean> {
   const config = await loadConfig();
   return config.telemetry !== false; // default enabled
 }
+
+export async function addDataRoot(root: string, defaultRoot: string): Promise<void> {
+  const config = await loadConfig();
+  // Keep the default root alongside the first custom one
+  const roots = config.dataRoots ?? [defaultRoot];
+  if (!roots.includes(root)) roots.push(root);
+  config.dataRoots = roots;
+  await saveConfig(config);
+}
+
+export async function removeDataRoot(root: string): Promise<boolean> {
+  const config = await loadConfig();
+  if (!config.dataRoots?.includes(root)) return false;
+  config.dataRoots = config.dataRoots.filter((r) => r !== root);
+  if (config.dataRoots.length === 0) delete config.dataRoots;
+  await saveConfig(config);
+  return true;
+}
+
+export async function getLaunchProfile(path: string): Promise<LaunchProfile | undefined> {
+  const config = await loadConfig();
+  return config.profiles?.[path];
+}
+
+export async function setLaunchProfile(path: string, profile: LaunchProfile): Promise<void> {
+  const config = await loadConfig();
+  if (!config.profiles) config.profiles = {};
+  config.profiles[path] = profile;
+  await saveConfig(config);
+}
+
+export async function clearLaunchProfile(path: string): Promise<boolean> {
+  const config = await loadConfig();
+  if (!config.profiles?.[path]) return false;
+  delete config.profiles[path];
+  if (Object.keys(config.profiles).length === 0) delete config.profiles;
+  await saveConfig(config);
+  return true;
+}
+
+// Without a path this sets the global budget
+export async function setBudget(amount: number, path?: string): Promise<void> {
+  const config = await loadConfig();
+  if (!config.budget) config.budget = {};
+  if (path) {
+    if (!config.budget.projects) config.budget.projects = {};
+    config.budget.projects[path] = amount;
+  } else {
+    config.budget.monthly = amount;
+  }
+  await saveConfig(config);
+}
+
+export async function clearBudget(path?: string): Promise<boolean> {
+  const config = await loadConfig();
+  const budget = config.budget;
+  if (path) {
+    if (budget?.projects?.[path] === undefined) return false;
+    delete budget.projects[path];
+    if (Object.keys(budget.projects).length === 0) delete budget.projects;
+  } else {
+    if (budget?.monthly === undefined) return false;
+    delete budget.monthly;
+  }
+  await saveConfig(config);
+  return true;
+}
+
+export async function setBudgetHook(command: string | undefined): Promise<void> {
+  const config = await loadConfig();
+  if (!config.budget) config.budget = {};
+  if (command) {
+    config.budget.hook = command;
+  } else {
+    delete config.budget.hook;
+  }
+  await saveConfig(config);
+}
+
+export async function setBudgetThresholds(thresholds: number[]): Promise<void> {
+  const config = await loadConfig();
+  if (!config.budget) config.budget = {};
+  config.budget.thresholds = thresholds;
+  await saveConfig(config);
+}
@@ -1,193 +1,407 @@
-import { readdir, readFile } from "node:fs/promises";
-import { join } from "node:path";
+import { dirname } from "node:path";
 import pc from "picocolors";
-import type { Project } from "./scanner.js";
-import { getProjectDir } from "./scanner.js";
 import { calculateCost, formatCost, formatTokens } from "./pricing.js";
-import type { TokenUsage } from "./parser.js";
-
-interface DailyCost {
-  date: string;
+import type { TokenUsage, ProjectStats } from "./parser.js";
+import { addUsage, bucketStart, emptyUsage } from "./parser.js";
+import type { TimeOptions } from "./timezone.js";
+import { addDays, dayOf, dayProgress, daysBetween, daysInMonth, lastDaysStart, today, weekOf } from "./timezone.js";
+
+export type CostPeriod = "day" | "week" | "month";
+export type CostDimension = "project" | "model";
+
+// One project's usage of one model on one day in the chosen zone, priced at the rates of the day it happened
+export interface CostEntry {
+  date: string; // YYYY-MM-DD
+  project: string; // name, with its parent directory when another project shares it
+  path: string;
+  model: string;
   usage: TokenUsage;
   cost: number;
 }
 
-interface JsonlLine {
-  timestamp?: string;
-  message?: {
-    usage?: {
-      input_tokens?: number;
-      output_tokens?: number;
-      cache_creation_input_tokens?: number;
-      cache_read_input_tokens?: number;
-    };
-  };
+export interface CostRow {
+  key: string;
+  usage: TokenUsage;
+  cost: number;
+  rows: CostRow[]; // next grouping level, empty at the last one
 }
 
-function formatDateKey(date: Date): string {
-  return date.toISOString().slice(0, 10);
+// Inclusive YYYY-MM-DD bounds
+export interface DateRange {
+  since?: string;
+  until?: string;
 }
 
-export async function getCostByDay(projects: Project[]): Promise<Map<string, TokenUsage>> {
-  const dailyUsage = new Map<string, TokenUsage>();
-
-  for (const project of projects) {
-    const projectDir = getProjectDir(project);
+type GroupKey = (entry: CostEntry) => string;
 
-    try {
-      const files = await readdir(projectDir);
-      const jsonlFiles = files.filter((f) => f.endsWith(".jsonl"));
+function periodKeys(time: TimeOptions): Record<CostPeriod, GroupKey> {
+  return {
+    day: (e) => e.date,
+    week: (e) => weekOf(e.date, time),
+    month: (e) => e.date.slice(0, 7),
+  };
+}
 
-      for (const file of jsonlFiles) {
-        const content = await readFile(join(projectDir, file), "utf-8");
-        const lines = content.split("\n").filter(Boolean);
+const DIMENSION_KEYS: Record<CostDimension, GroupKey> = {
+  project: (e) => e.path,
+  model: (e) => e.model,
+};
 
-        for (const line of lines) {
-          try {
-            const data: JsonlLine = JSON.parse(line);
+// Rows grouped on a project path show its name instead
+function rowLabel(key: GroupKey, entry: CostEntry): string {
+  return key === DIMENSION_KEYS.project ? entry.project : key(entry);
+}
 
-            if (data.timestamp && data.message?.usage) {
-              const dateKey = formatDateKey(new Date(data.timestamp));
-              const usage = data.message.usage;
+// Same-named projects in different directories get their parent directory as a hint
+function projectLabels(stats: ProjectStats[]): Map<string, string> {
+  const paths = new Map<string, Set<string>>();
+  for (const s of stats) {
+    if (!paths.has(s.project.name)) paths.set(s.project.name, new Set());
+    paths.get(s.project.name)!.add(s.project.path);
+  }
+  const labels = new Map<string, string>();
+  for (const { name, path } of stats.map((s) => s.project)) {
+    labels.set(path, paths.get(name)!.size > 1 ? `${name} (${dirname(path)})` : name);
+  }
+  return labels;
+}
 
-              if (!dailyUsage.has(dateKey)) {
-                dailyUsage.set(dateKey, {
-                  inputTokens: 0,
-                  outputTokens: 0,
-                  cacheCreationInputTokens: 0,
-                  cacheReadInputTokens: 0,
-                });
-              }
+function isEmptyUsage(u: TokenUsage): boolean {
+  return u.inputTokens + u.outputTokens + u.cacheCreationInputTokens + u.cacheReadInputTokens === 0;
+}
 
-              const daily = dailyUsage.get(dateKey)!;
-              daily.inputTokens += usage.input_tokens || 0;
-              daily.outputTokens += usage.output_tokens || 0;
-              daily.cacheCreationInputTokens += usage.cache_creation_input_tokens || 0;
-              daily.cacheReadInputTokens += usage.cache_read_input_tokens || 0;
-            }
-          } catch {
-            // skip invalid lines
+// Buckets are UTC quarter-hours, each lands on its calendar day in the zone
+export function getCostEntries(stats: ProjectStats[], range: DateRange, time: TimeOptions): CostEntry[] {
+  const merged = new Map<string, CostEntry>();
+  const labels = projectLabels(stats);
+
+  for (const s of stats) {
+    for (const record of s.records) {
+      for (const [slot, models] of Object.entries(record.buckets)) {
+        const date = dayOf(bucketStart(slot), time);
+        if (range.since && date < range.since) continue;
+        if (range.until && date > range.until) continue;
+        for (const [model, usage] of Object.entries(models)) {
+          if (isEmptyUsage(usage)) continue;
+          const key = `${date}|${s.project.path}|${model}`;
+          let entry = merged.get(key);
+          if (!entry) {
+            entry = { date, project: labels.get(s.project.path)!, path: s.project.path, model, usage: emptyUsage(), cost: 0 };
+            merged.set(key, entry);
           }
+          addUsage(entry.usage, usage);
+          entry.cost += calculateCost(usage, model, slot);
         }
       }
-    } catch {
-      // skip project
     }
   }
 
-  return dailyUsage;
+  return Array.from(merged.values());
 }
 
-function padRight(str: string, len: number): string {
-  return str.length >= len ? str.slice(0, len) : str + " ".repeat(len - str.length);
-}
+// Start and end day of a date spec: YYYY-MM-DD, YYYY-MM, YYYY, today, yesterday,
+// this-week, last-week, this-month, last-month, this-year, last-year or Nd (last N days)
+export function parseDateSpec(spec: string, time: TimeOptions, now: Date = new Date()): { start: string; end: string } {
+  const day = today(time, now);
+  const s = spec.trim().toLowerCase();
 
-export function showDailyCost(dailyUsage: Map<string, TokenUsage>, days?: number): void {
-  // Sort by date descending
-  const entries = Array.from(dailyUsage.entries()).sort((a, b) => b[0].localeCompare(a[0]));
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s) && !isNaN(Date.parse(s))) return { start: s, end: s };
 
-  // Filter by days if specified
-  const filtered = days
-    ? entries.filter(([date]) => {
-        const cutoff = new Date();
-        cutoff.setDate(cutoff.getDate() - days);
-        return new Date(date) >= cutoff;
-      })
-    : entries;
+  if (/^\d{4}-\d{2}$/.test(s) && !isNaN(Date.parse(`${s}-01`))) {
+    return { start: `${s}-01`, end: `${s}-${String(daysInMonth(s)).padStart(2, "0")}` };
+  }
 
-  if (filtered.length === 0) {
-    console.log(pc.yellow("No cost data found"));
-    return;
+  if (/^\d{4}$/.test(s)) return { start: `${s}-01-01`, end: `${s}-12-31` };
+
+  const lastDays = s.match(/^(\d+)d$/);
+  if (lastDays) {
+    return { start: lastDaysStart(Number(lastDays[1]), time, now), end: day };
   }
 
-  const title = days ? `Daily cost breakdown (last ${days}d)` : "Daily cost breakdown";
-  console.log(pc.bold(title));
-  console.log(pc.dim("-".repeat(60)));
-  console.log(
-    pc.bold(`${padRight("DATE", 12)} ${padRight("TOKENS", 14)} ${padRight("COST", 12)} BAR`)
-  );
-  console.log(pc.dim("-".repeat(60)));
+  const weekStart = weekOf(day, time);
+  const year = Number(day.slice(0, 4));
 
-  // Find max cost for bar scaling
-  const maxCost = Math.max(...filtered.map(([, u]) => calculateCost(u)));
+  switch (s) {
+    case "today":
+      return { start: day, end: day };
+    case "yesterday": {
+      const yesterday = addDays(day, -1);
+      return { start: yesterday, end: yesterday };
+    }
+    case "this-week":
+      return { start: weekStart, end: addDays(weekStart, 6) };
+    case "last-week":
+      return { start: addDays(weekStart, -7), end: addDays(weekStart, -1) };
+    case "this-month":
+      return parseDateSpec(day.slice(0, 7), time);
+    case "last-month":
+      return parseDateSpec(addDays(`${day.slice(0, 7)}-01`, -1).slice(0, 7), time);
+    case "this-year":
+      return parseDateSpec(String(year), time);
+    case "last-year":
+      return parseDateSpec(String(year - 1), time);
+  }
 
-  let totalCost = 0;
+  throw new Error(`Invalid date "${spec}", use YYYY-MM-DD, YYYY-MM, YYYY, Nd or a phrase like last-month`);
+}
 
-  for (const [date, usage] of filtered) {
-    const cost = calculateCost(usage);
-    totalCost += cost;
-    const tokens = usage.inputTokens + usage.outputTokens;
-    const barLen = maxCost > 0 ? Math.round((cost / maxCost) * 20) : 0;
-    const bar = pc.green("█".repeat(barLen));
+// Group entries by each key in turn; time keys sort newest first, others by cost
+export function groupCosts(entries: CostEntry[], keys: GroupKey[], timeKeys: GroupKey[] = []): CostRow[] {
+  const [key, ...rest] = keys;
+  if (!key) return [];
 
-    console.log(
-      `${padRight(date, 12)} ${padRight(formatTokens(tokens), 14)} ${padRight(formatCost(cost), 12)} ${bar}`
-    );
+  const groups = new Map<string, CostEntry[]>();
+  for (const entry of entries) {
+    const k = key(entry);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(entry);
   }
 
-  console.log(pc.dim("-".repeat(60)));
-  console.log(pc.green(`Total: ${formatCost(totalCost)}`));
+  const rows = Array.from(groups.values()).map((group) => {
+    const usage = emptyUsage();
+    let cost = 0;
+    for (const entry of group) {
+      addUsage(usage, entry.usage);
+      cost += entry.cost;
+    }
+    return { key: rowLabel(key, group[0]), usage, cost, rows: groupCosts(group, rest, timeKeys) };
+  });
+
+  if (timeKeys.includes(key)) return rows.sort((a, b) => b.key.localeCompare(a.key));
+  return rows.sort((a, b) => b.cost - a.cost);
 }
 
-export function showWeeklyCost(dailyUsage: Map<string, TokenUsage>): void {
-  // Group by week
-  const weeklyUsage = new Map<string, TokenUsage>();
-
-  for (const [dateStr, usage] of dailyUsage) {
-    const date = new Date(dateStr);
-    // Get Monday of the week
-    const day = date.getDay();
-    const diff = date.getDate() - day + (day === 0 ? -6 : 1);
-    const monday = new Date(date);
-    monday.setDate(diff);
-    const weekKey = formatDateKey(monday);
-
-    if (!weeklyUsage.has(weekKey)) {
-      weeklyUsage.set(weekKey, {
-        inputTokens: 0,
-        outputTokens: 0,
-        cacheCreationInputTokens: 0,
-        cacheReadInputTokens: 0,
-      });
-    }
+export interface CostReportOptions {
+  period?: CostPeriod; // no period with a dimension gives totals over the range
+  by?: CostDimension;
+}
+
+export function groupCostReport(entries: CostEntry[], options: CostReportOptions, time: TimeOptions): CostRow[] {
+  const periods = periodKeys(time);
+  const keys: GroupKey[] = [];
+  if (options.period) keys.push(periods[options.period]);
+  if (options.by) keys.push(DIMENSION_KEYS[options.by]);
+  if (keys.length === 0) keys.push(periods.day);
+  return groupCosts(entries, keys, Object.values(periods));
+}
+
+function totalCost(entries: CostEntry[]): number {
+  return entries.reduce((sum, e) => sum + e.cost, 0);
+}
+
+export interface ForecastPeriod {
+  label: string;
+  start: string;
+  end: string;
+  spent: number; // up to now
+  projected: number; // at the end of the period
+}
+
+export interface Forecast {
+  windowDays: number;
+  dailyRate: number; // average over the last windowDays full days
+  periods: ForecastPeriod[];
+}
+
+// Project this week and month from the average of recent full days
+export function getForecast(stats: ProjectStats[], time: TimeOptions, windowDays: number = 7, now: Date = new Date()): Forecast {
+  const day = today(time, now);
+  const week = parseDateSpec("this-week", time, now);
+  const month = parseDateSpec("this-month", time, now);
+  const windowStart = addDays(day, -windowDays);
+
+  const since = [windowStart, week.start, month.start].sort()[0];
+  const entries = getCostEntries(stats, { since, until: day }, time);
+  const dailyRate = totalCost(entries.filter((e) => e.date >= windowStart && e.date < day)) / windowDays;
+  const restOfToday = 1 - dayProgress(time, now);
+
+  const periods = [
+    { label: "This week", ...week },
+    { label: "This month", ...month },
+  ].map(({ label, start, end }) => {
+    const spent = totalCost(entries.filter((e) => e.date >= start));
+    const remaining = daysBetween(day, end) + restOfToday;
+    return { label, start, end, spent, projected: spent + dailyRate * remaining };
+  });
+
+  return { windowDays, dailyRate, periods };
+}
 
-    const weekly = weeklyUsage.get(weekKey)!;
-    weekly.inputTokens += usage.inputTokens;
-    weekly.outputTokens += usage.outputTokens;
-    weekly.cacheCreationInputTokens += usage.cacheCreationInputTokens;
-    weekly.cacheReadInputTokens += usage.cacheReadInputTokens;
+export type ComparePeriod = "week" | "month";
+
+export interface ComparisonRow {
+  key: string;
+  current: number;
+  previous: number;
+}
+
+export interface Comparison {
+  period: ComparePeriod;
+  current: { start: string; end: string };
+  previous: { start: string; end: string };
+  total: ComparisonRow;
+  groups: { dimension: CostDimension; rows: ComparisonRow[] }[];
+}
+
+function compareRows(current: CostEntry[], previous: CostEntry[], dimension: CostDimension): ComparisonRow[] {
+  const rows = new Map<string, ComparisonRow>();
+  const key = DIMENSION_KEYS[dimension];
+  for (const e of current) {
+    const k = key(e);
+    if (!rows.has(k)) rows.set(k, { key: rowLabel(key, e), current: 0, previous: 0 });
+    rows.get(k)!.current += e.cost;
   }
+  for (const e of previous) {
+    const k = key(e);
+    if (!rows.has(k)) rows.set(k, { key: rowLabel(key, e), current: 0, previous: 0 });
+    rows.get(k)!.previous += e.cost;
+  }
+  // Biggest movers first
+  return Array.from(rows.values()).sort((a, b) => Math.abs(b.current - b.previous) - Math.abs(a.current - a.previous));
+}
+
+// This period so far against the same number of days at the start of the previous one
+export function compareCosts(
+  stats: ProjectStats[],
+  period: ComparePeriod,
+  dimensions: CostDimension[],
+  time: TimeOptions,
+  now: Date = new Date()
+): Comparison {
+  const day = today(time, now);
+  const current = { start: parseDateSpec(`this-${period}`, time, now).start, end: day };
+  const last = parseDateSpec(`last-${period}`, time, now);
+  const sameSpan = addDays(last.start, daysBetween(current.start, day));
+  const previous = { start: last.start, end: sameSpan < last.end ? sameSpan : last.end };
+
+  const currentEntries = getCostEntries(stats, { since: current.start, until: current.end }, time);
+  const previousEntries = getCostEntries(stats, { since: previous.start, until: previous.end }, time);
+
+  return {
+    period,
+    current,
+    previous,
+    total: { key: "Total", current: totalCost(currentEntries), previous: totalCost(previousEntries) },
+    groups: dimensions.map((dimension) => ({ dimension, rows: compareRows(currentEntries, previousEntries, dimension) })),
+  };
+}
 
-  // Sort by week descending
-  const entries = Array.from(weeklyUsage.entries()).sort((a, b) => b[0].localeCompare(a[0]));
+function padRight(str: string, len: number): string {
+  return str.length >= len ? str.slice(0, len) : str + " ".repeat(len - str.length);
+}
+
+const PERIOD_LABELS: Record<CostPeriod, { title: string; column: string }> = {
+  day: { title: "Daily cost breakdown", column: "DATE" },
+  week: { title: "Weekly cost breakdown", column: "WEEK OF" },
+  month: { title: "Monthly cost breakdown", column: "MONTH" },
+};
+
+function reportTitle(options: CostReportOptions, range: DateRange): string {
+  const by = options.by ? ` by ${options.by}` : "";
+  const base = options.period || !options.by ? PERIOD_LABELS[options.period ?? "day"].title + by : `Cost${by}`;
 
-  if (entries.length === 0) {
+  if (range.since && range.until) return `${base} (${range.since} to ${range.until})`;
+  if (range.since) return `${base} (since ${range.since})`;
+  if (range.until) return `${base} (until ${range.until})`;
+  return base;
+}
+
+export function showCostReport(rows: CostRow[], options: CostReportOptions, range: DateRange = {}): void {
+  if (rows.length === 0) {
     console.log(pc.yellow("No cost data found"));
     return;
   }
 
-  console.log(pc.bold("Weekly cost breakdown"));
-  console.log(pc.dim("-".repeat(60)));
-  console.log(
-    pc.bold(`${padRight("WEEK OF", 12)} ${padRight("TOKENS", 14)} ${padRight("COST", 12)} BAR`)
-  );
-  console.log(pc.dim("-".repeat(60)));
+  const nested = rows.some((r) => r.rows.length > 0);
+  const column = options.period || !options.by ? PERIOD_LABELS[options.period ?? "day"].column : options.by!.toUpperCase();
+  const keys = rows.flatMap((r) => [r.key, ...r.rows.map((c) => `  ${c.key}`)]);
+  const keyWidth = Math.min(36, Math.max(12, ...keys.map((k) => k.length + 1)));
+  const width = keyWidth + 48;
 
-  const maxCost = Math.max(...entries.map(([, u]) => calculateCost(u)));
-  let totalCost = 0;
+  console.log(pc.bold(reportTitle(options, range)));
+  console.log(pc.dim("-".repeat(width)));
+  console.log(pc.bold(`${padRight(column, keyWidth)} ${padRight("TOKENS", 14)} ${padRight("COST", 12)} BAR`));
+  console.log(pc.dim("-".repeat(width)));
 
-  for (const [week, usage] of entries) {
-    const cost = calculateCost(usage);
-    totalCost += cost;
-    const tokens = usage.inputTokens + usage.outputTokens;
-    const barLen = maxCost > 0 ? Math.round((cost / maxCost) * 20) : 0;
-    const bar = pc.green("█".repeat(barLen));
+  // Bars scale to the largest row of each level
+  const maxCost = Math.max(...rows.map((r) => r.cost));
+  let totalCost = 0;
 
+  const printRow = (row: CostRow, indent: string, max: number, color: (s: string) => string) => {
+    const tokens = row.usage.inputTokens + row.usage.outputTokens;
+    const barLen = max > 0 ? Math.round((row.cost / max) * 20) : 0;
     console.log(
-      `${padRight(week, 12)} ${padRight(formatTokens(tokens), 14)} ${padRight(formatCost(cost), 12)} ${bar}`
+      `${padRight(indent + row.key, keyWidth)} ${padRight(formatTokens(tokens), 14)} ${padRight(formatCost(row.cost), 12)} ${color("█".repeat(barLen))}`
     );
+  };
+
+  for (const row of rows) {
+    totalCost += row.cost;
+    printRow(row, "", maxCost, pc.green);
+    if (nested) {
+      const childMax = Math.max(...row.rows.map((c) => c.cost));
+      for (const child of row.rows) {
+        printRow(child, "  ", childMax, pc.dim);
+      }
+    }
   }
 
-  console.log(pc.dim("-".repeat(60)));
+  console.log(pc.dim("-".repeat(width)));
   console.log(pc.green(`Total: ${formatCost(totalCost)}`));
 }
+
+export function showForecast(forecast: Forecast): void {
+  console.log(pc.bold(`Forecast at ${formatCost(forecast.dailyRate)}/day (average of the last ${forecast.windowDays} full days)`));
+  console.log(pc.dim("-".repeat(72)));
+  console.log(pc.bold(`${padRight("PERIOD", 14)} ${padRight("DAYS", 26)} ${padRight("SPENT", 12)} PROJECTED`));
+  console.log(pc.dim("-".repeat(72)));
+
+  for (const p of forecast.periods) {
+    console.log(
+      `${padRight(p.label, 14)} ${pc.dim(padRight(`${p.start} to ${p.end}`, 26))} ${padRight(formatCost(p.spent), 12)} ${pc.green(formatCost(p.projected))}`
+    );
+  }
+
+  console.log(pc.dim("-".repeat(72)));
+}
+
+function formatAmount(cost: number): string {
+  return cost === 0 ? "-" : formatCost(cost);
+}
+
+// Spend going up shows red, going down green
+function formatDelta(row: ComparisonRow): string {
+  const delta = row.current - row.previous;
+  if (Math.abs(delta) < 0.005) return pc.dim("no change");
+  const sign = delta > 0 ? "+" : "-";
+  const amount = `${sign}${formatCost(Math.abs(delta))}`;
+  const pct = row.previous > 0 ? ` (${sign}${Math.round((Math.abs(delta) / row.previous) * 100)}%)` : " (new)";
+  return delta > 0 ? pc.red(amount + pct) : pc.green(amount + pct);
+}
+
+export function showComparison(comparison: Comparison): void {
+  const { period, current, previous } = comparison;
+  const keys = comparison.groups.flatMap((g) => g.rows.map((r) => r.key));
+  const keyWidth = Math.min(36, Math.max(16, ...keys.map((k) => k.length + 1)));
+  const width = keyWidth + 48;
+  const thisLabel = `THIS ${period.toUpperCase()}`;
+  const lastLabel = `LAST ${period.toUpperCase()}`;
+
+  console.log(pc.bold(`${period === "week" ? "Week" : "Month"} over ${period}`));
+  console.log(pc.dim(`${current.start} to ${current.end} vs ${previous.start} to ${previous.end}`));
+
+  const printRows = (title: string, rows: ComparisonRow[]) => {
+    console.log(pc.dim("-".repeat(width)));
+    console.log(pc.bold(`${padRight(title, keyWidth)} ${padRight(thisLabel, 12)} ${padRight(lastLabel, 12)} CHANGE`));
+    console.log(pc.dim("-".repeat(width)));
+    for (const row of rows) {
+      console.log(`${padRight(row.key, keyWidth)} ${padRight(formatAmount(row.current), 12)} ${padRight(formatAmount(row.previous), 12)} ${formatDelta(row)}`);
+    }
+  };
+
+  printRows("", [comparison.total]);
+  for (const group of comparison.groups) {
+    if (group.rows.length > 0) printRows(group.dimension.toUpperCase(), group.rows);
+  }
+  console.log(pc.dim("-".repeat(width)));
+}
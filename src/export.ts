@@ -1,33 +1,66 @@
 import type { ProjectStats } from "./parser.js";
-import { calculateCost } from "./pricing.js";
+import { calculateBucketsCost, costByModel, costTiers, type CostTiers } from "./pricing.js";
+
+interface ModelRow {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheCreation1hTokens: number;
+  cacheReadTokens: number;
+  estimatedCost: number;
+}
 
 interface ExportRow {
   name: string;
   path: string;
+  pathResolution: string;
   sessions: number;
   firstActivity: string | null;
   lastActivity: string | null;
   inputTokens: number;
   outputTokens: number;
   cacheCreationTokens: number;
+  cacheCreation1hTokens: number;
   cacheReadTokens: number;
   totalTokens: number;
   estimatedCost: number;
+  longContextPremium: number; // part of estimatedCost above base rates
+  costTiers: CostTiers;
+  models: Record<string, ModelRow>;
 }
 
 function toExportRow(s: ProjectStats): ExportRow {
+  const modelCosts = costByModel(s.buckets);
+  const tiers = costTiers(s.buckets);
   return {
     name: s.project.name,
     path: s.project.path,
+    pathResolution: s.project.resolution,
     sessions: s.sessions,
     firstActivity: s.firstActivity?.toISOString() ?? null,
     lastActivity: s.lastActivity?.toISOString() ?? null,
     inputTokens: s.usage.inputTokens,
     outputTokens: s.usage.outputTokens,
     cacheCreationTokens: s.usage.cacheCreationInputTokens,
+    cacheCreation1hTokens: s.usage.cacheCreation1hInputTokens,
     cacheReadTokens: s.usage.cacheReadInputTokens,
     totalTokens: s.usage.inputTokens + s.usage.outputTokens,
-    estimatedCost: calculateCost(s.usage),
+    estimatedCost: calculateBucketsCost(s.buckets),
+    longContextPremium: tiers.longContext,
+    costTiers: tiers,
+    models: Object.fromEntries(
+      Object.entries(s.models).map(([model, u]) => [
+        model,
+        {
+          inputTokens: u.inputTokens,
+          outputTokens: u.outputTokens,
+          cacheCreationTokens: u.cacheCreationInputTokens,
+          cacheCreation1hTokens: u.cacheCreation1hInputTokens,
+          cacheReadTokens: u.cacheReadInputTokens,
+          estimatedCost: modelCosts[model] ?? 0,
+        },
+      ])
+    ),
   };
 }
 
@@ -40,15 +73,19 @@ export function exportCSV(stats: ProjectStats[]): string {
   const headers = [
     "name",
     "path",
+    "pathResolution",
     "sessions",
     "firstActivity",
     "lastActivity",
     "inputTokens",
     "outputTokens",
     "cacheCreationTokens",
+    "cacheCreation1hTokens",
     "cacheReadTokens",
     "totalTokens",
     "estimatedCost",
+    "longContextPremium",
+    "models",
   ];
 
   const rows = stats.map(toExportRow);
@@ -60,6 +97,12 @@ export function exportCSV(stats: ProjectStats[]): string {
         .map((h) => {
           const val = row[h as keyof ExportRow];
           if (val === null) return "";
+          if (typeof val === "object") {
+            // model=cost pairs, e.g. claude-opus-4-1=12.30;claude-sonnet-4-5=1.05
+            return Object.entries(val as Record<string, ModelRow>)
+              .map(([model, m]) => `${model}=${m.estimatedCost.toFixed(2)}`)
+              .join(";");
+          }
           if (typeof val === "string" && val.includes(",")) {
             return `"${val}"`;
           }
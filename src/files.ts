@@ -0,0 +1,12 @@
+import { rename, cp, rm } from "node:fs/promises";
+
+// Rename, or copy then delete when the target is on another filesystem
+export async function moveDir(from: string, to: string): Promise<void> {
+  try {
+    await rename(from, to);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EXDEV") throw err;
+    await cp(from, to, { recursive: true });
+    await rm(from, { recursive: true, force: true });
+  }
+}
@@ -17,6 +17,12 @@ const BUCKETS_MS = [
 
 interface HistoryData {
   launches: Record<string, number[]>; // path -> timestamps
+  resumed?: Record<string, ResumedSession[]>; // path -> resumed sessions
+}
+
+export interface ResumedSession {
+  sessionId: string;
+  timestamp: number;
 }
 
 async function ensureDir(): Promise<void> {
@@ -41,18 +47,45 @@ async function saveHistory(data: HistoryData): Promise<void> {
   await writeFile(HISTORY_FILE, JSON.stringify(data, null, 2), "utf-8");
 }
 
-export async function recordLaunch(projectPath: string): Promise<void> {
+export async function recordLaunch(projectPath: string, sessionId?: string): Promise<void> {
   const history = await loadHistory();
+  const now = Date.now();
   if (!history.launches[projectPath]) {
     history.launches[projectPath] = [];
   }
-  history.launches[projectPath].push(Date.now());
+  history.launches[projectPath].push(now);
 
   // Keep only last 100 launches per project
   if (history.launches[projectPath].length > 100) {
     history.launches[projectPath] = history.launches[projectPath].slice(-100);
   }
 
+  if (sessionId) {
+    if (!history.resumed) history.resumed = {};
+    const resumed = [...(history.resumed[projectPath] ?? []), { sessionId, timestamp: now }];
+    history.resumed[projectPath] = resumed.slice(-100);
+  }
+
+  await saveHistory(history);
+}
+
+export async function renameLaunchHistory(oldPath: string, newPath: string): Promise<void> {
+  const history = await loadHistory();
+  const launches = history.launches[oldPath];
+  if (!launches) return;
+
+  // Merge with launches recorded since the move
+  const merged = [...launches, ...(history.launches[newPath] ?? [])].sort((a, b) => a - b);
+  history.launches[newPath] = merged.slice(-100);
+  delete history.launches[oldPath];
+
+  if (history.resumed?.[oldPath]) {
+    history.resumed[newPath] = [...history.resumed[oldPath], ...(history.resumed[newPath] ?? [])]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-100);
+    delete history.resumed[oldPath];
+  }
+
   await saveHistory(history);
 }
 
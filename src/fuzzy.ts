@@ -0,0 +1,79 @@
+import pc from "picocolors";
+
+export interface FuzzyMatch {
+  score: number;
+  positions: number[]; // indexes of the matched characters in the text
+}
+
+const MATCH = 16;
+const CONSECUTIVE = 12;
+const BOUNDARY = 10;
+const FIRST_CHAR = 8;
+const GAP = 1;
+
+const SEPARATORS = new Set(["-", "_", ".", "/", " ", ":"]);
+
+// Start of a word: first char, after a separator or a camelCase hump
+function isBoundary(text: string, i: number): boolean {
+  if (i === 0) return true;
+  const prev = text[i - 1];
+  if (SEPARATORS.has(prev)) return true;
+  return prev === prev.toLowerCase() && text[i] !== text[i].toLowerCase();
+}
+
+// Query chars matched in order from one start position, preferring runs
+function matchFrom(query: string, text: string, lower: string, start: number): FuzzyMatch | null {
+  const positions = [start];
+  let score = MATCH + (isBoundary(text, start) ? BOUNDARY : 0) + (start === 0 ? FIRST_CHAR : 0);
+  let pos = start;
+
+  for (let qi = 1; qi < query.length; qi++) {
+    const next = lower.indexOf(query[qi], pos + 1);
+    if (next === -1) return null;
+
+    score += MATCH;
+    if (next === pos + 1) score += CONSECUTIVE;
+    else score -= (next - pos - 1) * GAP;
+    if (isBoundary(text, next)) score += BOUNDARY;
+
+    positions.push(next);
+    pos = next;
+  }
+
+  return { score, positions };
+}
+
+// fzf-style subsequence match, case-insensitive; null when not every char is found
+export function fuzzyScore(query: string, text: string): FuzzyMatch | null {
+  const q = query.toLowerCase().replace(/\s+/g, "");
+  if (!q) return { score: 0, positions: [] };
+  const lower = text.toLowerCase();
+
+  let best: FuzzyMatch | null = null;
+  for (let start = lower.indexOf(q[0]); start !== -1; start = lower.indexOf(q[0], start + 1)) {
+    const match = matchFrom(q, text, lower, start);
+    if (match && (!best || match.score > best.score)) best = match;
+  }
+  return best;
+}
+
+// Frecency scores run from 0 to a few thousand, this keeps them a tiebreaker
+export function frecencyBonus(frecency: number): number {
+  return frecency > 0 ? Math.log2(1 + frecency) * 3 : 0;
+}
+
+// Text cut or padded to width, with the matched characters highlighted
+export function highlight(text: string, positions: number[], width?: number): string {
+  const visible = width === undefined ? text : text.slice(0, width);
+  const marked = new Set(positions);
+  let out = "";
+  for (let i = 0; i < visible.length; i++) {
+    out += marked.has(i) ? pc.bold(pc.yellow(visible[i])) : visible[i];
+  }
+  if (width !== undefined && visible.length < width) out += " ".repeat(width - visible.length);
+  return out;
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, "");
+}
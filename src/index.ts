@@ -1,19 +1,25 @@
 #!/usr/bin/env node
 
 import { Command } from "commander";
-import { scanProjects } from "./scanner.js";
-import { parseAllProjects } from "./parser.js";
-import { showPicker, showTable, showStats, showRecent, fuzzyMatch, filterByDays } from "./ui.js";
-import { launchClaude } from "./launcher.js";
+import { scanProjects, scanOrphans, getDataRoots, getDefaultRoot } from "./scanner.js";
+import { showPicker, showTable, showStats, showRecent, rankMatches, isAmbiguous, pickMatch, pickProjects, showCandidates, filterByDays } from "./ui.js";
+import { launchClaude, openEditor, openShell, type LaunchOptions } from "./launcher.js";
 import { track, shutdown, initTelemetry } from "./telemetry.js";
-import { getCached, setCache, clearCache } from "./cache.js";
+import { loadProjectStats, clearCache } from "./cache.js";
 import { getFrecencyScores, recordLaunch } from "./frecency.js";
 import { getLastSessionPreview } from "./preview.js";
-import { loadConfig, archiveProject, unarchiveProject, filterArchived, setProjectBaseDir, getProjectBaseDir, setTelemetry, isTelemetryEnabled } from "./config.js";
+import { loadConfig, archiveProject, unarchiveProject, filterArchived, setProjectBaseDir, getProjectBaseDir, setTelemetry, isTelemetryEnabled, addDataRoot, removeDataRoot, getLaunchProfile, setLaunchProfile, clearLaunchProfile, setDefaultModel, setBudget, clearBudget, setBudgetHook, setBudgetThresholds, setTimeZone, setWeekStart, setBlockTokenLimit, type LaunchProfile, type Config } from "./config.js";
 import { createProject } from "./create.js";
-import { getCostByDay, showDailyCost, showWeeklyCost } from "./cost.js";
+import { warnUnknownModels, formatCost, formatTokens, loadPricing, showPricing, setModelPricing, importPricing, getDefaultModel, resolveModel } from "./pricing.js";
+import { getCostEntries, groupCostReport, showCostReport, parseDateSpec, getForecast, showForecast, compareCosts, showComparison, type CostPeriod, type CostDimension, type DateRange } from "./cost.js";
 import { exportJSON, exportCSV } from "./export.js";
 import { getProjectInfo, showProjectInfo, getOrGenerateSummary } from "./info.js";
+import { getOrphanInfo, showOrphans, pruneOrphans, pickOrphans, formatBytes, type Orphan } from "./prune.js";
+import { moveProject } from "./move.js";
+import { getSessions, showSessions, showSession, pickSession, type SessionSort } from "./sessions.js";
+import { getTimeOptions, resolveTimeZone, parseWeekStart, formatWeekStart, localTimeZone, type TimeOptions } from "./timezone.js";
+import { getBlocks, showBlocks, parseTokenLimit, maxBlockTokens } from "./blocks.js";
+import { getBudgetStatuses, checkBudgetThresholds, showBudgets, showBudgetWarnings, budgetsByPath, type BudgetStatus } from "./budget.js";
 import type { ProjectStats } from "./parser.js";
 import type { SessionPreview } from "./preview.js";
 import pc from "picocolors";
@@ -23,35 +29,155 @@ const program = new Command();
 interface GlobalOpts {
   days?: number;
   cache?: boolean;
+  root?: string[];
+  raw?: boolean;
+  tz?: string;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
 }
 
 async function getStats(opts: GlobalOpts = {}): Promise<{ stats: ProjectStats[]; fromCache: boolean }> {
-  // Try cache first (unless --no-cache)
-  if (opts.cache !== false) {
-    const cached = await getCached();
-    if (cached) {
-      return { stats: cached, fromCache: true };
-    }
-  }
+  const roots = await getDataRoots(opts.root);
+  const projects = await scanProjects(roots);
+  // Only new or grown session files get parsed (all of them with --no-cache or --raw)
+  return loadProjectStats(projects, roots, { useCache: opts.cache !== false, raw: opts.raw });
+}
 
-  // Parse fresh
-  const projects = await scanProjects();
-  const stats = await parseAllProjects(projects);
-  await setCache(stats);
-  return { stats, fromCache: false };
+// Launching needs the project directory on this machine
+function launchable(stats: ProjectStats[]): ProjectStats[] {
+  return stats.filter((s) => !s.project.missing);
 }
 
-async function loadPreviews(stats: ProjectStats[]): Promise<Map<string, SessionPreview | null>> {
+function loadPreviews(stats: ProjectStats[]): Map<string, SessionPreview | null> {
   const previews = new Map<string, SessionPreview | null>();
-  await Promise.all(
-    stats.map(async (s) => {
-      const preview = await getLastSessionPreview(s.project);
-      previews.set(s.project.path, preview);
-    })
-  );
+  for (const s of stats) {
+    previews.set(s.project.path, getLastSessionPreview(s));
+  }
   return previews;
 }
 
+// Best match for a project name; asks (or lists candidates without a terminal) when it's a close call
+async function resolveProject<T extends { project: { name: string; path: string }; lastActivity?: Date | null }>(
+  candidates: T[],
+  name: string
+): Promise<T | null> {
+  const matches = rankMatches(candidates, name, await getFrecencyScores());
+
+  if (matches.length === 0) {
+    console.log(pc.red(`No project found matching "${name}"`));
+    return null;
+  }
+  if (!isAmbiguous(matches)) return matches[0].item;
+
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    showCandidates(matches, name);
+    return null;
+  }
+  try {
+    return await pickMatch(matches, name);
+  } catch {
+    // Prompt cancelled
+    return null;
+  }
+}
+
+// Projects ticked in a multi-select picker; exits when cancelled, nothing is picked or there's no terminal
+async function pickOrExit<T extends { project: { name: string; path: string }; lastActivity?: Date | null }>(
+  items: T[],
+  message: string
+): Promise<T[]> {
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    console.log(pc.red("Picking projects needs a terminal, pass a name instead"));
+    process.exit(1);
+  }
+  let picked: T[] | null = null;
+  try {
+    picked = await pickProjects(items, message);
+  } catch {
+    // Prompt cancelled
+  }
+  if (!picked || picked.length === 0) {
+    if (picked) console.log(pc.yellow("No projects found"));
+    await shutdown();
+    process.exit(0);
+  }
+  return picked;
+}
+
+// Turn --resume into a concrete session id, picking one when none was given
+async function resolveLaunch(
+  stats: ProjectStats,
+  opts: { continue?: boolean; resume?: string | boolean }
+): Promise<LaunchOptions | null> {
+  const sessions = getSessions(stats);
+
+  if (typeof opts.resume === "string") {
+    const session = sessions.find((s) => s.id.startsWith(opts.resume as string));
+    if (!session) {
+      console.log(pc.red(`No session found matching "${opts.resume}"`));
+      return null;
+    }
+    return { resume: session.id };
+  }
+
+  if (opts.resume) {
+    const session = await pickSession(sessions);
+    return session ? { resume: session.id } : null;
+  }
+
+  return { continue: opts.continue };
+}
+
+// --tz wins over the configured zone
+function getTime(config: Config): TimeOptions {
+  try {
+    return getTimeOptions(config, (program.opts() as GlobalOpts).tz);
+  } catch (err) {
+    console.log(pc.red((err as Error).message));
+    process.exit(1);
+  }
+}
+
+// Spend against budgets this month, running the threshold hook when one is crossed
+async function checkBudgets(stats: ProjectStats[], config: Config): Promise<BudgetStatus[]> {
+  const time = getTime(config);
+  const statuses = getBudgetStatuses(stats, config, time);
+  await checkBudgetThresholds(statuses, config, time);
+  return statuses;
+}
+
+async function openProject(stats: ProjectStats, launch: LaunchOptions, budgets: BudgetStatus[] = []): Promise<void> {
+  // claude --continue picks the most recent session, which is ours too
+  const sessionId = launch.resume ?? (launch.continue ? getSessions(stats)[0]?.id : undefined);
+  const profile = await getLaunchProfile(stats.project.path);
+  await recordLaunch(stats.project.path, sessionId);
+  showBudgetWarnings(budgets.filter((b) => !b.path || b.path === stats.project.path));
+  const what = sessionId ? ` (session ${sessionId.slice(0, 8)})` : "";
+  console.log(pc.dim(`Opening ${stats.project.path}${what}...`));
+  launchClaude(stats.project, { ...launch, profile });
+}
+
+function parseEnv(pairs: string[]): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const pair of pairs) {
+    const eq = pair.indexOf("=");
+    if (eq <= 0) throw new Error(`Invalid env var "${pair}", expected KEY=VALUE`);
+    env[pair.slice(0, eq)] = pair.slice(eq + 1);
+  }
+  return env;
+}
+
+function showLaunchProfile(profile: LaunchProfile): void {
+  if (profile.binary) console.log(`  Binary:  ${profile.binary}`);
+  if (profile.model) console.log(`  Model:   ${profile.model}`);
+  if (profile.args?.length) console.log(`  Args:    ${profile.args.join(" ")}`);
+  for (const [key, value] of Object.entries(profile.env ?? {})) {
+    console.log(`  Env:     ${key}=${value}`);
+  }
+}
+
 function showCacheIndicator(fromCache: boolean): void {
   if (fromCache) {
     console.log(pc.dim("(cached)"));
@@ -63,7 +189,10 @@ program
   .description("Fast CLI to scan, list, and launch Claude Code projects")
   .version("1.5.1")
   .option("-d, --days <n>", "filter to last N days", parseInt)
-  .option("--no-cache", "bypass cache, fetch fresh data");
+  .option("--no-cache", "bypass cache, fetch fresh data")
+  .option("--root <dir>", "Claude projects dir to scan (repeatable)", collect, [])
+  .option("--raw", "sum usage from every transcript line, without deduplicating streamed messages")
+  .option("--tz <zone>", "time zone for days, weeks and months, e.g. Europe/Amsterdam or UTC");
 
 program
   .command("list")
@@ -76,10 +205,13 @@ program
     const config = await loadConfig();
     const { stats: allStats, fromCache } = await getStats(globalOpts);
     let stats = opts.all ? allStats : filterArchived(allStats, config);
-    if (days) stats = filterByDays(stats, days);
+    if (days) stats = filterByDays(stats, days, getTime(config));
+    const budgets = await checkBudgets(allStats, config);
     track({ command: "list", projectCount: stats.length, daysFilter: days });
     showCacheIndicator(fromCache);
     showTable(stats);
+    showBudgetWarnings(budgets);
+    warnUnknownModels();
     await shutdown();
   });
 
@@ -104,15 +236,14 @@ program
   .description("Show detailed project information")
   .option("-s, --summary", "include AI-generated summary (uses claude -p)")
   .action(async (name: string, opts: { summary?: boolean }) => {
-    const { stats } = await getStats();
-    const match = fuzzyMatch(stats, name);
+    const { stats } = await getStats(program.opts() as GlobalOpts);
+    const match = await resolveProject(stats, name);
 
     if (!match) {
-      console.log(pc.red(`No project found matching "${name}"`));
       process.exit(1);
     }
 
-    const info = await getProjectInfo(match);
+    const info = getProjectInfo(match);
     let summary: string | undefined;
 
     if (opts.summary) {
@@ -120,29 +251,81 @@ program
     }
 
     showProjectInfo(info, summary);
+    warnUnknownModels();
     await shutdown();
   });
 
 program
-  .command("open <name>")
-  .description("Open project by name (fuzzy match)")
-  .action(async (name: string) => {
+  .command("sessions <name>")
+  .description("List sessions of a project")
+  .option("-s, --sort <by>", "sort by: recent or cost", "recent")
+  .option("-n, --limit <n>", "number of sessions to show", parseInt)
+  .option("-p, --pick", "choose a session in the picker and show its details")
+  .action(async (name: string, opts: { sort: string; limit?: number; pick?: boolean }) => {
     const globalOpts = program.opts() as GlobalOpts;
+    if (opts.sort !== "recent" && opts.sort !== "cost") {
+      console.log(pc.red("Sort must be recent or cost"));
+      process.exit(1);
+    }
+
     const { stats } = await getStats(globalOpts);
-    const match = fuzzyMatch(stats, name);
+    const match = await resolveProject(stats, name);
 
     if (!match) {
+      process.exit(1);
+    }
+
+    let sessions = getSessions(match, opts.sort as SessionSort);
+    if (opts.limit) sessions = sessions.slice(0, opts.limit);
+    track({ command: "sessions", projectCount: 1 });
+
+    if (opts.pick) {
+      try {
+        const session = await pickSession(sessions);
+        if (session) showSession(session);
+      } catch {
+        // Prompt cancelled
+      }
+    } else {
+      showSessions(sessions);
+    }
+    warnUnknownModels();
+    await shutdown();
+  });
+
+program
+  .command("open <name> [claude-args...]")
+  .description("Open project by name (fuzzy match), args after -- go to claude")
+  .option("-c, --continue", "continue the last session")
+  .option("-r, --resume [session]", "resume a session by id, or pick one")
+  .action(async (name: string, claudeArgs: string[], opts: { continue?: boolean; resume?: string | boolean }) => {
+    const globalOpts = program.opts() as GlobalOpts;
+    const { stats } = await getStats(globalOpts);
+    const match = await resolveProject(launchable(stats), name);
+
+    if (!match) {
+      track({ command: "open", success: false });
+      await shutdown();
+      process.exit(1);
+    }
+
+    let launch: LaunchOptions | null = null;
+    try {
+      launch = await resolveLaunch(match, opts);
+    } catch {
+      // Prompt cancelled
+    }
+
+    if (!launch) {
       track({ command: "open", success: false });
       await shutdown();
-      console.log(pc.red(`No project found matching "${name}"`));
       process.exit(1);
     }
 
-    await recordLaunch(match.project.path);
+    const budgets = await checkBudgets(stats, await loadConfig());
     track({ command: "open", success: true });
     await shutdown();
-    console.log(pc.dim(`Opening ${match.project.path}...`));
-    launchClaude(match.project);
+    await openProject(match, { ...launch, args: claudeArgs }, budgets);
   });
 
 program
@@ -152,33 +335,113 @@ program
   .action(async (opts) => {
     const globalOpts = program.opts() as GlobalOpts;
     const days = opts.days ?? globalOpts.days;
+    const time = getTime(await loadConfig());
     const { stats: allStats, fromCache } = await getStats(globalOpts);
-    const stats = days ? filterByDays(allStats, days) : allStats;
+    const stats = days ? filterByDays(allStats, days, time) : allStats;
     track({ command: "stats", projectCount: stats.length, daysFilter: days });
     showCacheIndicator(fromCache);
     showStats(stats, days);
+    warnUnknownModels();
     await shutdown();
   });
 
 program
   .command("cost")
-  .description("Show cost breakdown by day or week")
+  .description("Show cost breakdown by day, week, month, project or model")
   .option("-d, --days <n>", "filter to last N days", parseInt)
-  .option("-w, --weekly", "group by week instead of day")
-  .action(async (opts) => {
-    const globalOpts = program.opts() as GlobalOpts;
-    const days = opts.days ?? globalOpts.days;
-    const projects = await scanProjects();
-    const dailyUsage = await getCostByDay(projects);
-    track({ command: "cost", daysFilter: days, weekly: opts.weekly });
+  .option("--since <date>", "from this day: YYYY-MM-DD, YYYY-MM, Nd or a phrase like last-month")
+  .option("--until <date>", "up to and including this day, same formats as --since")
+  .option("--daily", "group by day (the default without --by)")
+  .option("-w, --weekly", "group by week")
+  .option("-m, --monthly", "group by month")
+  .option("-b, --by <dimension>", "group by project or model")
+  .option("--forecast", "project this week's and month's spend from the last 7 days (or --days)")
+  .option("--compare", "this month (or week with -w) so far against the same days of the previous one")
+  .option("-p, --pick", "only projects chosen in a multi-select picker")
+  .action(
+    async (opts: {
+      days?: number;
+      since?: string;
+      until?: string;
+      daily?: boolean;
+      weekly?: boolean;
+      monthly?: boolean;
+      by?: string;
+      forecast?: boolean;
+      compare?: boolean;
+      pick?: boolean;
+    }) => {
+      const globalOpts = program.opts() as GlobalOpts;
+      const days = opts.days ?? globalOpts.days;
 
-    if (opts.weekly) {
-      showWeeklyCost(dailyUsage);
-    } else {
-      showDailyCost(dailyUsage, days);
+      const periods = (["daily", "weekly", "monthly"] as const).filter((p) => opts[p]);
+      if (periods.length > 1) {
+        console.log(pc.red("Use only one of --daily, --weekly and --monthly"));
+        process.exit(1);
+      }
+      if (opts.by && opts.by !== "project" && opts.by !== "model") {
+        console.log(pc.red(`Invalid --by "${opts.by}", use project or model`));
+        process.exit(1);
+      }
+
+      if (opts.forecast || opts.compare) {
+        if (opts.forecast && opts.compare) {
+          console.log(pc.red("Use only one of --forecast and --compare"));
+          process.exit(1);
+        }
+        if (opts.since || opts.until || (opts.compare && opts.daily)) {
+          console.log(pc.red(`--${opts.forecast ? "forecast" : "compare"} picks its own dates, drop --since, --until and --daily`));
+          process.exit(1);
+        }
+      }
+
+      const time = getTime(await loadConfig());
+      const loadStats = async () => {
+        const { stats } = await getStats(globalOpts);
+        return opts.pick ? pickOrExit(stats, "Cost for projects:") : stats;
+      };
+
+      if (opts.forecast) {
+        const stats = await loadStats();
+        track({ command: "cost", daysFilter: days });
+        showForecast(getForecast(stats, time, days || 7));
+        warnUnknownModels();
+        await shutdown();
+        return;
+      }
+
+      if (opts.compare) {
+        const stats = await loadStats();
+        const dimensions: CostDimension[] = opts.by ? [opts.by as CostDimension] : ["project", "model"];
+        track({ command: "cost", weekly: opts.weekly });
+        showComparison(compareCosts(stats, opts.weekly ? "week" : "month", dimensions, time));
+        warnUnknownModels();
+        await shutdown();
+        return;
+      }
+
+      const range: DateRange = {};
+      try {
+        if (days) range.since = parseDateSpec(`${days}d`, time).start;
+        if (opts.since) range.since = parseDateSpec(opts.since, time).start;
+        if (opts.until) range.until = parseDateSpec(opts.until, time).end;
+      } catch (err) {
+        console.log(pc.red((err as Error).message));
+        process.exit(1);
+      }
+
+      const period: CostPeriod | undefined = opts.monthly ? "month" : opts.weekly ? "week" : opts.daily ? "day" : undefined;
+      const options = { period, by: opts.by as CostDimension | undefined };
+
+      const stats = await loadStats();
+      const rows = groupCostReport(getCostEntries(stats, range, time), options, time);
+      track({ command: "cost", daysFilter: days, weekly: opts.weekly });
+
+      showCostReport(rows, options, range);
+      warnUnknownModels();
+      await shutdown();
     }
-    await shutdown();
-  });
+  );
 
 program
   .command("export")
@@ -186,11 +449,14 @@ program
   .option("-f, --format <format>", "output format: csv or json", "json")
   .option("-d, --days <n>", "filter to last N days", parseInt)
   .option("-o, --output <file>", "write to file instead of stdout")
+  .option("-p, --pick", "only projects chosen in a multi-select picker")
   .action(async (opts) => {
     const globalOpts = program.opts() as GlobalOpts;
     const days = opts.days ?? globalOpts.days;
-    const { stats: allStats } = await getStats(globalOpts);
-    const stats = days ? filterByDays(allStats, days) : allStats;
+    const time = getTime(await loadConfig());
+    let { stats } = await getStats(globalOpts);
+    if (days) stats = filterByDays(stats, days, time);
+    if (opts.pick) stats = await pickOrExit(stats, "Export projects:");
 
     const output = opts.format === "csv" ? exportCSV(stats) : exportJSON(stats);
 
@@ -202,45 +468,179 @@ program
       console.log(output);
     }
 
+    warnUnknownModels();
     track({ command: "export", format: opts.format, projectCount: stats.length });
     await shutdown();
   });
 
 program
-  .command("archive <name>")
-  .description("Hide project from picker and list")
-  .action(async (name: string) => {
-    const { stats } = await getStats();
-    const match = fuzzyMatch(stats, name);
+  .command("archive [name]")
+  .description("Hide project from picker and list, pick several without a name")
+  .action(async (name: string | undefined) => {
+    const { stats } = await getStats(program.opts() as GlobalOpts);
+    let matches: ProjectStats[];
 
-    if (!match) {
-      console.log(pc.red(`No project found matching "${name}"`));
-      process.exit(1);
+    if (name) {
+      const match = await resolveProject(stats, name);
+      if (!match) {
+        process.exit(1);
+      }
+      matches = [match];
+    } else {
+      matches = await pickOrExit(filterArchived(stats, await loadConfig()), "Archive projects:");
     }
 
-    await archiveProject(match.project.path);
-    console.log(pc.green(`Archived: ${match.project.name}`));
+    for (const match of matches) {
+      await archiveProject(match.project.path);
+      console.log(pc.green(`Archived: ${match.project.name}`));
+    }
     console.log(pc.dim("Use 'cclp list -a' to see archived projects"));
     await shutdown();
   });
 
 program
-  .command("unarchive <name>")
-  .description("Restore archived project")
-  .action(async (name: string) => {
-    const { stats } = await getStats();
-    const match = fuzzyMatch(stats, name);
+  .command("unarchive [name]")
+  .description("Restore archived project, pick several without a name")
+  .action(async (name: string | undefined) => {
+    const { stats } = await getStats(program.opts() as GlobalOpts);
+    let matches: ProjectStats[];
+
+    if (name) {
+      const match = await resolveProject(stats, name);
+      if (!match) {
+        process.exit(1);
+      }
+      matches = [match];
+    } else {
+      const archived = (await loadConfig()).archived ?? [];
+      const candidates = stats.filter((s) => archived.includes(s.project.path));
+      if (candidates.length === 0) {
+        console.log(pc.dim("No archived projects"));
+        await shutdown();
+        return;
+      }
+      matches = await pickOrExit(candidates, "Unarchive projects:");
+    }
+
+    for (const match of matches) {
+      await unarchiveProject(match.project.path);
+      console.log(pc.green(`Unarchived: ${match.project.name}`));
+    }
+    await shutdown();
+  });
+
+program
+  .command("mv <name> <new-path>")
+  .description("Move a project and migrate its Claude history")
+  .option("--rewrite-cwd", "rewrite cwd fields in session transcripts")
+  .action(async (name: string, newPath: string, opts: { rewriteCwd?: boolean }) => {
+    const globalOpts = program.opts() as GlobalOpts;
+    const { resolve } = await import("node:path");
+    const { homedir } = await import("node:os");
+    const expand = (p: string) => resolve(p.startsWith("~/") ? p.replace("~", homedir()) : p);
+
+    // Include orphans: the repo may already have been moved by hand
+    const roots = await getDataRoots(globalOpts.root);
+    const candidates = (await scanProjects(roots)).map((project) => ({ project }));
+    const match =
+      candidates.find((c) => c.project.path === expand(name)) ?? (await resolveProject(candidates, name));
 
     if (!match) {
-      console.log(pc.red(`No project found matching "${name}"`));
       process.exit(1);
     }
 
-    await unarchiveProject(match.project.path);
-    console.log(pc.green(`Unarchived: ${match.project.name}`));
+    try {
+      const target = expand(newPath);
+      const result = await moveProject(match.project, target, opts);
+
+      if (result.movedDir) {
+        console.log(pc.green(`Moved ${match.project.path} -> ${target}`));
+      } else {
+        console.log(pc.dim(`${match.project.path} already moved, migrating history only`));
+      }
+      if (result.mergedHistory) {
+        console.log(pc.dim("Merged with existing history for the new path"));
+      }
+      if (opts.rewriteCwd) {
+        console.log(pc.dim(`Rewrote cwd in ${result.rewrittenFiles} sessions`));
+      }
+      track({ command: "mv", success: true });
+      await shutdown();
+    } catch (err) {
+      console.log(pc.red((err as Error).message));
+      track({ command: "mv", success: false });
+      await shutdown();
+      process.exit(1);
+    }
+  });
+
+program
+  .command("orphans")
+  .description("List Claude history for projects that no longer exist")
+  .action(async () => {
+    const globalOpts = program.opts() as GlobalOpts;
+    const projects = await scanOrphans(await getDataRoots(globalOpts.root));
+    const orphans = await Promise.all(projects.map(getOrphanInfo));
+    track({ command: "orphans", projectCount: orphans.length });
+    showOrphans(orphans);
     await shutdown();
   });
 
+program
+  .command("prune")
+  .description("Delete or trash Claude history of orphaned projects")
+  .option("-n, --dry-run", "show what would be removed")
+  .option("-t, --trash", "move to ~/.cclp/trash instead of deleting")
+  .action(async (opts: { dryRun?: boolean; trash?: boolean }) => {
+    const globalOpts = program.opts() as GlobalOpts;
+    const projects = await scanOrphans(await getDataRoots(globalOpts.root));
+    const orphans = await Promise.all(projects.map(getOrphanInfo));
+
+    if (orphans.length === 0) {
+      console.log(pc.green("No orphaned projects"));
+      await shutdown();
+      return;
+    }
+
+    const { confirm } = await import("@inquirer/prompts");
+    let selected: Orphan[] | null;
+
+    try {
+      selected = await pickOrphans(orphans);
+      if (selected && selected.length > 0 && !opts.dryRun) {
+        const size = formatBytes(selected.reduce((sum, o) => sum + o.sizeBytes, 0));
+        const verb = opts.trash ? "Move to trash" : "Permanently delete";
+        if (!(await confirm({ message: `${verb} ${selected.length} dirs (${size})?`, default: false }))) selected = null;
+      }
+    } catch {
+      // Prompt cancelled
+      await shutdown();
+      process.exit(0);
+    }
+
+    if (!selected) {
+      await shutdown();
+      return;
+    }
+    if (selected.length === 0) {
+      console.log(pc.dim("Nothing selected"));
+      await shutdown();
+      return;
+    }
+
+    try {
+      const freed = await pruneOrphans(selected, opts);
+      track({ command: "prune", projectCount: selected.length, success: true });
+      console.log(pc.green(`${opts.dryRun ? "Would free" : "Freed"} ${formatBytes(freed)}`));
+      await shutdown();
+    } catch (err) {
+      console.log(pc.red((err as Error).message));
+      track({ command: "prune", projectCount: selected.length, success: false });
+      await shutdown();
+      process.exit(1);
+    }
+  });
+
 program
   .command("clear-cache")
   .description("Clear cached project data")
@@ -291,6 +691,348 @@ program
     await shutdown();
   });
 
+program
+  .command("profile <name> [claude-args...]")
+  .description("Show or set the launch profile of a project, args after -- replace its claude args")
+  .option("-m, --model <model>", "model to pass as --model")
+  .option("-e, --env <KEY=VALUE>", "environment variable (repeatable)", collect, [])
+  .option("-b, --binary <path>", "claude executable to launch")
+  .option("--clear", "remove the profile")
+  .action(
+    async (
+      name: string,
+      claudeArgs: string[],
+      opts: { model?: string; env: string[]; binary?: string; clear?: boolean }
+    ) => {
+      const { stats } = await getStats(program.opts() as GlobalOpts);
+      const match = await resolveProject(stats, name);
+
+      if (!match) {
+        process.exit(1);
+      }
+
+      const path = match.project.path;
+
+      if (opts.clear) {
+        const cleared = await clearLaunchProfile(path);
+        console.log(cleared ? pc.green(`Cleared profile: ${match.project.name}`) : pc.dim("No profile set"));
+        track({ command: "profile", success: cleared });
+        await shutdown();
+        return;
+      }
+
+      const existing = (await getLaunchProfile(path)) ?? {};
+      const changed = opts.model || opts.binary || opts.env.length > 0 || claudeArgs.length > 0;
+
+      if (!changed) {
+        if (Object.keys(existing).length === 0) {
+          console.log(pc.dim(`No profile set for ${match.project.name}`));
+        } else {
+          console.log(pc.bold(match.project.name));
+          showLaunchProfile(existing);
+        }
+        await shutdown();
+        return;
+      }
+
+      let env: Record<string, string>;
+      try {
+        env = parseEnv(opts.env);
+      } catch (err) {
+        console.log(pc.red((err as Error).message));
+        process.exit(1);
+      }
+
+      const profile: LaunchProfile = { ...existing };
+      if (opts.model) profile.model = opts.model;
+      if (opts.binary) profile.binary = opts.binary;
+      if (opts.env.length > 0) profile.env = { ...existing.env, ...env };
+      if (claudeArgs.length > 0) profile.args = claudeArgs;
+
+      await setLaunchProfile(path, profile);
+      console.log(pc.green(`Saved profile: ${match.project.name}`));
+      showLaunchProfile(profile);
+      track({ command: "profile", success: true });
+      await shutdown();
+    }
+  );
+
+const pricing = program.command("pricing").description("Show or override model pricing");
+
+pricing
+  .command("list", { isDefault: true })
+  .description("Show pricing per model (USD per 1M tokens)")
+  .action(async () => {
+    showPricing();
+    await shutdown();
+  });
+
+pricing
+  .command("set <model>")
+  .description("Set the rates of a model (USD per 1M tokens)")
+  .requiredOption("-i, --input <rate>", "input rate", parseFloat)
+  .requiredOption("-o, --output <rate>", "output rate", parseFloat)
+  .option("-w, --cache-write <rate>", "5m cache write rate (default 1.25x input)", parseFloat)
+  .option("--cache-write-1h <rate>", "1h cache write rate (default 2x input)", parseFloat)
+  .option("-r, --cache-read <rate>", "cache read rate (default 0.1x input)", parseFloat)
+  .option("-f, --from <date>", "apply from this UTC day (YYYY-MM-DD) onwards")
+  .action(
+    async (
+      model: string,
+      opts: {
+        input: number;
+        output: number;
+        cacheWrite?: number;
+        cacheWrite1h?: number;
+        cacheRead?: number;
+        from?: string;
+      }
+    ) => {
+      try {
+        await setModelPricing(model, {
+          from: opts.from,
+          input: opts.input,
+          output: opts.output,
+          cacheWrite: opts.cacheWrite ?? opts.input * 1.25,
+          cacheWrite1h: opts.cacheWrite1h,
+          cacheRead: opts.cacheRead ?? opts.input * 0.1,
+        });
+      } catch (err) {
+        console.log(pc.red((err as Error).message));
+        process.exit(1);
+      }
+      const from = opts.from ? ` from ${opts.from}` : "";
+      console.log(pc.green(`Saved pricing for ${model}${from}`));
+      await shutdown();
+    }
+  );
+
+pricing
+  .command("import <file>")
+  .description("Merge a pricing file into ~/.cclp/pricing.json")
+  .action(async (file: string) => {
+    try {
+      const count = await importPricing(file);
+      console.log(pc.green(`Imported ${count} pricing entries`));
+    } catch (err) {
+      console.log(pc.red(`Could not import ${file}: ${(err as Error).message}`));
+      process.exit(1);
+    }
+    await shutdown();
+  });
+
+pricing
+  .command("default [model]")
+  .description("Show or set the model used to price unknown models")
+  .option("--reset", "go back to the built-in default")
+  .action(async (model: string | undefined, opts: { reset?: boolean }) => {
+    if (opts.reset || model) {
+      await setDefaultModel(opts.reset ? undefined : model);
+      await loadPricing();
+    }
+    const defaultModel = getDefaultModel();
+    const { id } = resolveModel(defaultModel);
+    console.log(id === defaultModel ? defaultModel : `${defaultModel} ${pc.dim(`(priced as ${id})`)}`);
+    await shutdown();
+  });
+
+const budget = program.command("budget").description("Monthly budgets with threshold warnings");
+
+async function matchBudgetProject(name: string): Promise<ProjectStats> {
+  const { stats } = await getStats(program.opts() as GlobalOpts);
+  const match = await resolveProject(stats, name);
+  if (!match) {
+    process.exit(1);
+  }
+  return match;
+}
+
+budget
+  .command("status", { isDefault: true })
+  .description("Show spend against budgets this month")
+  .action(async () => {
+    const config = await loadConfig();
+    const { stats } = await getStats(program.opts() as GlobalOpts);
+    const statuses = await checkBudgets(stats, config);
+    track({ command: "budget", projectCount: statuses.length });
+    showBudgets(statuses, getTime(config));
+    warnUnknownModels();
+    await shutdown();
+  });
+
+budget
+  .command("set <amount>")
+  .description("Set the global or a project's monthly budget (USD)")
+  .option("-m, --monthly", "monthly budget (the default and only period)")
+  .option("-p, --project <name>", "budget for one project")
+  .action(async (amount: string, opts: { monthly?: boolean; project?: string }) => {
+    const value = parseFloat(amount);
+    if (!Number.isFinite(value) || value <= 0) {
+      console.log(pc.red(`Invalid amount: ${amount}`));
+      process.exit(1);
+    }
+
+    if (opts.project) {
+      const match = await matchBudgetProject(opts.project);
+      await setBudget(value, match.project.path);
+      console.log(pc.green(`Monthly budget for ${match.project.name}: ${formatCost(value)}`));
+    } else {
+      await setBudget(value);
+      console.log(pc.green(`Monthly budget: ${formatCost(value)}`));
+    }
+    await shutdown();
+  });
+
+budget
+  .command("clear")
+  .description("Remove the global or a project's budget")
+  .option("-p, --project <name>", "budget for one project")
+  .action(async (opts: { project?: string }) => {
+    const path = opts.project ? (await matchBudgetProject(opts.project)).project.path : undefined;
+    const cleared = await clearBudget(path);
+    console.log(cleared ? pc.green("Budget removed") : pc.dim("No budget set"));
+    await shutdown();
+  });
+
+budget
+  .command("hook [command]")
+  .description("Show or set the command run when a threshold is crossed")
+  .option("--clear", "remove the hook")
+  .action(async (command: string | undefined, opts: { clear?: boolean }) => {
+    if (opts.clear || command) {
+      await setBudgetHook(opts.clear ? undefined : command);
+    }
+    const config = await loadConfig();
+    console.log(config.budget?.hook ?? pc.dim("No hook set"));
+    await shutdown();
+  });
+
+budget
+  .command("thresholds <percentages>")
+  .description("Set the thresholds that trigger the hook, e.g. 50,80,100")
+  .action(async (percentages: string) => {
+    const thresholds = percentages.split(",").map((p) => parseFloat(p.trim()));
+    if (thresholds.some((t) => !Number.isFinite(t) || t <= 0)) {
+      console.log(pc.red(`Invalid thresholds: ${percentages}`));
+      process.exit(1);
+    }
+    await setBudgetThresholds(thresholds.sort((a, b) => a - b));
+    console.log(pc.green(`Thresholds: ${thresholds.map((t) => `${t}%`).join(", ")}`));
+    await shutdown();
+  });
+
+const blocks = program.command("blocks").description("5-hour usage blocks for subscription limits");
+
+blocks
+  .command("list", { isDefault: true })
+  .description("Show recent 5-hour blocks and the active block's burn rate")
+  .option("-n, --recent <n>", "number of blocks to show", parseInt, 10)
+  .option("-a, --all", "show every block")
+  .option("-l, --limit <tokens>", "token limit per block, or max for the largest past block")
+  .action(async (opts: { recent: number; all?: boolean; limit?: string }) => {
+    const config = await loadConfig();
+    const time = getTime(config);
+
+    let limitSpec: number | "max" | undefined = config.blockTokenLimit;
+    if (opts.limit) {
+      try {
+        limitSpec = parseTokenLimit(opts.limit);
+      } catch (err) {
+        console.log(pc.red((err as Error).message));
+        process.exit(1);
+      }
+    }
+
+    const { stats } = await getStats(program.opts() as GlobalOpts);
+    const all = getBlocks(stats);
+    const limit = limitSpec === "max" ? maxBlockTokens(all) || undefined : limitSpec;
+    track({ command: "blocks", projectCount: stats.length });
+
+    showBlocks(opts.all ? all : all.slice(-opts.recent), limit, time);
+    warnUnknownModels();
+    await shutdown();
+  });
+
+blocks
+  .command("limit [tokens]")
+  .description("Show or set the token limit per block (e.g. 500k, or max)")
+  .option("--clear", "remove the limit")
+  .action(async (tokens: string | undefined, opts: { clear?: boolean }) => {
+    if (opts.clear || tokens) {
+      try {
+        await setBlockTokenLimit(opts.clear ? undefined : parseTokenLimit(tokens!));
+      } catch (err) {
+        console.log(pc.red((err as Error).message));
+        process.exit(1);
+      }
+    }
+    const config = await loadConfig();
+    const limit = config.blockTokenLimit;
+    if (limit === undefined) console.log(pc.dim("No limit set"));
+    else console.log(limit === "max" ? `max ${pc.dim("(largest past block)")}` : formatTokens(limit));
+    await shutdown();
+  });
+
+program
+  .command("roots")
+  .description("Show Claude data roots being scanned")
+  .action(async () => {
+    const globalOpts = program.opts() as GlobalOpts;
+    const { access } = await import("node:fs/promises");
+    const roots = await getDataRoots(globalOpts.root);
+
+    for (const root of roots) {
+      try {
+        await access(root);
+        console.log(root);
+      } catch {
+        console.log(`${root} ${pc.dim("(missing)")}`);
+      }
+    }
+    await shutdown();
+  });
+
+program
+  .command("add-root <path>")
+  .description("Add a Claude projects dir to scan")
+  .action(async (path: string) => {
+    const { access } = await import("node:fs/promises");
+    const { resolve } = await import("node:path");
+    const { homedir } = await import("node:os");
+
+    const expanded = path.startsWith("~/") ? path.replace("~", homedir()) : path;
+    const resolved = resolve(expanded);
+
+    try {
+      await access(resolved);
+    } catch {
+      console.log(pc.red(`Directory does not exist: ${resolved}`));
+      process.exit(1);
+    }
+
+    await addDataRoot(resolved, getDefaultRoot());
+    console.log(pc.green(`Added data root: ${resolved}`));
+    await shutdown();
+  });
+
+program
+  .command("remove-root <path>")
+  .description("Stop scanning a Claude projects dir")
+  .action(async (path: string) => {
+    const { resolve } = await import("node:path");
+    const { homedir } = await import("node:os");
+
+    const expanded = path.startsWith("~/") ? path.replace("~", homedir()) : path;
+    const removed = await removeDataRoot(resolve(expanded));
+
+    if (removed) {
+      console.log(pc.green(`Removed data root: ${resolve(expanded)}`));
+    } else {
+      console.log(pc.dim("Not a configured data root"));
+    }
+    await shutdown();
+  });
+
 program
   .command("new <name>")
   .description("Create new project and launch Claude")
@@ -302,7 +1044,7 @@ program
       track({ command: "new", success: true });
       await shutdown();
       console.log(pc.green(`Created: ${projectPath}`));
-      launchClaude({ path: projectPath, name, encodedPath: "" });
+      launchClaude({ path: projectPath });
     } catch (err) {
       console.log(pc.red((err as Error).message));
       track({ command: "new", success: false });
@@ -324,6 +1066,41 @@ program
     await shutdown();
   });
 
+program
+  .command("tz [zone]")
+  .description("Show or set the time zone for days, weeks and months")
+  .option("--clear", "use the system time zone")
+  .action(async (zone: string | undefined, opts: { clear?: boolean }) => {
+    if (opts.clear || zone) {
+      try {
+        await setTimeZone(opts.clear ? undefined : resolveTimeZone(zone!));
+      } catch (err) {
+        console.log(pc.red((err as Error).message));
+        process.exit(1);
+      }
+    }
+    const config = await loadConfig();
+    console.log(config.timeZone ?? `${localTimeZone()} ${pc.dim("(system)")}`);
+    await shutdown();
+  });
+
+program
+  .command("week-start [day]")
+  .description("Show or set the day weeks start on (default: monday)")
+  .action(async (day: string | undefined) => {
+    if (day) {
+      try {
+        await setWeekStart(formatWeekStart(parseWeekStart(day)));
+      } catch (err) {
+        console.log(pc.red((err as Error).message));
+        process.exit(1);
+      }
+    }
+    const config = await loadConfig();
+    console.log(formatWeekStart(getTime(config).weekStart));
+    await shutdown();
+  });
+
 // Shell completion commands
 program
   .command("completion")
@@ -336,7 +1113,7 @@ program
         console.log(`# Add to ~/.bashrc:
 _${name}_completions() {
   local cur="\${COMP_WORDS[COMP_CWORD]}"
-  local commands="list recent open stats cost export archive unarchive clear-cache set-base get-base new telemetry completion"
+  local commands="list recent sessions open stats cost blocks export archive unarchive mv profile pricing budget orphans prune clear-cache set-base get-base roots add-root remove-root new tz week-start telemetry completion"
   COMPREPLY=($(compgen -W "\${commands}" -- "\${cur}"))
 }
 complete -F _${name}_completions ${name}`);
@@ -347,16 +1124,29 @@ _${name}() {
   local commands=(
     'list:Show all projects in table format'
     'recent:Show top 5 projects by frecency'
+    'sessions:List sessions of a project'
     'open:Open project by name'
     'stats:Show usage summary'
     'cost:Show cost breakdown by day/week'
+    'blocks:Show 5-hour usage blocks'
     'export:Export project data as CSV/JSON'
     'archive:Hide project from picker'
     'unarchive:Restore archived project'
+    'mv:Move project and migrate history'
+    'profile:Show or set project launch profile'
+    'pricing:Show or override model pricing'
+    'budget:Monthly budgets and warnings'
+    'orphans:List history of deleted projects'
+    'prune:Remove history of deleted projects'
     'clear-cache:Clear cached project data'
     'set-base:Set base directory for new projects'
     'get-base:Show current base directory'
+    'roots:Show Claude data roots'
+    'add-root:Add a Claude projects dir'
+    'remove-root:Remove a Claude projects dir'
     'new:Create new project and launch Claude'
+    'tz:Show or set the time zone'
+    'week-start:Show or set the first day of the week'
     'telemetry:Enable or disable usage tracking'
     'completion:Generate shell completion'
   )
@@ -368,16 +1158,29 @@ compdef _${name} ${name}`);
         console.log(`# Save to ~/.config/fish/completions/${name}.fish:
 complete -c ${name} -n __fish_use_subcommand -a list -d 'Show all projects'
 complete -c ${name} -n __fish_use_subcommand -a recent -d 'Show top 5 by frecency'
+complete -c ${name} -n __fish_use_subcommand -a sessions -d 'List sessions'
 complete -c ${name} -n __fish_use_subcommand -a open -d 'Open project by name'
 complete -c ${name} -n __fish_use_subcommand -a stats -d 'Show usage summary'
 complete -c ${name} -n __fish_use_subcommand -a cost -d 'Show cost breakdown'
+complete -c ${name} -n __fish_use_subcommand -a blocks -d 'Show 5-hour usage blocks'
 complete -c ${name} -n __fish_use_subcommand -a export -d 'Export as CSV/JSON'
 complete -c ${name} -n __fish_use_subcommand -a archive -d 'Hide project'
 complete -c ${name} -n __fish_use_subcommand -a unarchive -d 'Restore project'
+complete -c ${name} -n __fish_use_subcommand -a mv -d 'Move project'
+complete -c ${name} -n __fish_use_subcommand -a profile -d 'Project launch profile'
+complete -c ${name} -n __fish_use_subcommand -a pricing -d 'Model pricing'
+complete -c ${name} -n __fish_use_subcommand -a budget -d 'Monthly budgets'
+complete -c ${name} -n __fish_use_subcommand -a orphans -d 'List orphaned history'
+complete -c ${name} -n __fish_use_subcommand -a prune -d 'Remove orphaned history'
 complete -c ${name} -n __fish_use_subcommand -a clear-cache -d 'Clear cache'
 complete -c ${name} -n __fish_use_subcommand -a set-base -d 'Set base directory'
 complete -c ${name} -n __fish_use_subcommand -a get-base -d 'Show base directory'
+complete -c ${name} -n __fish_use_subcommand -a roots -d 'Show data roots'
+complete -c ${name} -n __fish_use_subcommand -a add-root -d 'Add data root'
+complete -c ${name} -n __fish_use_subcommand -a remove-root -d 'Remove data root'
 complete -c ${name} -n __fish_use_subcommand -a new -d 'Create new project'
+complete -c ${name} -n __fish_use_subcommand -a tz -d 'Show or set time zone'
+complete -c ${name} -n __fish_use_subcommand -a week-start -d 'Show or set week start'
 complete -c ${name} -n __fish_use_subcommand -a telemetry -d 'Toggle usage tracking'
 complete -c ${name} -n __fish_use_subcommand -a completion -d 'Generate completion'`);
         break;
@@ -393,33 +1196,63 @@ program.action(async () => {
   const days = globalOpts.days;
   const config = await loadConfig();
   const { stats: allStats, fromCache } = await getStats(globalOpts);
-  let stats = filterArchived(allStats, config);
-  if (days) stats = filterByDays(stats, days);
+  let stats = launchable(filterArchived(allStats, config));
+  if (days) stats = filterByDays(stats, days, getTime(config));
 
-  // Load frecency and previews in parallel
-  const [frecencyScores, previews] = await Promise.all([
-    getFrecencyScores(),
-    loadPreviews(stats),
-  ]);
+  // Previews come from the same session records, no re-parsing
+  const frecencyScores = await getFrecencyScores();
+  const previews = loadPreviews(stats);
+  const budgets = await checkBudgets(allStats, config);
 
   showCacheIndicator(fromCache);
+  showBudgetWarnings(budgets.filter((b) => !b.path));
+
+  const pickerOptions = { frecencyScores, previews, budgets: budgetsByPath(budgets), time: getTime(config), archived: new Set<string>() };
 
   try {
-    const result = await showPicker(stats, { frecencyScores, previews });
-    if (result) {
+    let result = await showPicker(stats, pickerOptions);
+
+    // Editor and shell hand the terminal over, then it's back to the picker
+    while (result?.action === "editor" || result?.action === "shell") {
+      const project = result.value.project;
+      try {
+        await (result.action === "editor" ? openEditor(project) : openShell(project));
+      } catch (err) {
+        console.log(pc.red((err as Error).message));
+      }
+      result = await showPicker(stats, { ...pickerOptions, initial: result.value });
+    }
+
+    if (result?.action === "cost" || result?.action === "export") {
+      // Bulk actions work on the selection, or the highlighted project without one
+      const selected = result.values.length > 0 ? result.values : [result.value];
+      if (result.action === "cost") {
+        const time = getTime(config);
+        const range: DateRange = days ? { since: parseDateSpec(`${days}d`, time).start } : {};
+        const options = { by: "project" as CostDimension };
+        showCostReport(groupCostReport(getCostEntries(selected, range, time), options, time), options, range);
+        warnUnknownModels();
+      } else {
+        console.log(exportJSON(selected));
+      }
+      track({ command: "picker", projectCount: selected.length, daysFilter: days, success: true });
+      await shutdown();
+    } else if (result) {
       if (result.action === "info") {
         // Show info and exit
-        const info = await getProjectInfo(result.value);
+        const info = getProjectInfo(result.value);
         showProjectInfo(info);
         track({ command: "picker", projectCount: stats.length, daysFilter: days, success: true });
         await shutdown();
       } else {
-        // Select and launch
-        await recordLaunch(result.value.project.path);
-        track({ command: "picker", projectCount: stats.length, daysFilter: days, success: true });
+        // Select and launch, optionally resuming the last or a chosen session
+        const launch = await resolveLaunch(result.value, {
+          continue: result.action === "resume",
+          resume: result.action === "sessions",
+        });
+        track({ command: "picker", projectCount: stats.length, daysFilter: days, success: launch !== null });
         await shutdown();
-        console.log(pc.dim(`Opening ${result.value.project.path}...`));
-        launchClaude(result.value.project);
+        if (launch) await openProject(result.value, launch, budgets.filter((b) => b.path));
       }
     } else {
       track({ command: "picker", projectCount: stats.length, daysFilter: days, success: false });
@@ -433,4 +1266,5 @@ program.action(async () => {
 });
 
 await initTelemetry();
+await loadPricing();
 program.parse();
@@ -1,12 +1,14 @@
-import { readdir, readFile, stat, writeFile, mkdir } from "node:fs/promises";
+import { readFile, writeFile, mkdir } from "node:fs/promises";
 import { join } from "node:path";
 import { spawn } from "node:child_process";
 import { homedir } from "node:os";
 import pc from "picocolors";
-import type { Project } from "./scanner.js";
-import { getProjectDir } from "./scanner.js";
 import type { ProjectStats } from "./parser.js";
-import { calculateCost, formatCost, formatTokens } from "./pricing.js";
+import { recentSessions } from "./parser.js";
+import { getCostEntries } from "./cost.js";
+import type { TimeOptions } from "./timezone.js";
+import { addDays, lastDaysStart } from "./timezone.js";
+import { calculateBucketsCost, costByModel, costTiers, costTierRows, formatCost, formatTokens, formatModelMix } from "./pricing.js";
 
 const CCLP_DIR = join(homedir(), ".cclp");
 const SUMMARIES_DIR = join(CCLP_DIR, "summaries");
@@ -137,102 +139,22 @@ export async function getOrGenerateSummary(info: ProjectInfo): Promise<string> {
   return summary;
 }
 
-interface JsonlLine {
-  timestamp?: string;
-  type?: string;
-  message?: {
-    role?: string;
-    content?: string | { type: string; text?: string; name?: string; input?: unknown }[];
-  };
-  tool_name?: string;
-  tool_input?: {
-    file_path?: string;
-    command?: string;
-  };
-}
-
-function extractUserMessage(content: unknown): string | null {
-  if (typeof content === "string") {
-    return content.slice(0, 100);
-  }
-  if (Array.isArray(content)) {
-    const textBlock = content.find((b) => b.type === "text" && b.text);
-    if (textBlock?.text) {
-      return textBlock.text.slice(0, 100);
-    }
-  }
-  return null;
-}
-
-export async function getProjectInfo(stats: ProjectStats): Promise<ProjectInfo> {
-  const projectDir = getProjectDir(stats.project);
+export function getProjectInfo(stats: ProjectStats): ProjectInfo {
   const recentPrompts: string[] = [];
   const filesModified = new Set<string>();
   const toolsUsed: Record<string, number> = {};
 
-  try {
-    const files = await readdir(projectDir);
-    const jsonlFiles = files.filter((f) => f.endsWith(".jsonl"));
-
-    // Sort by mtime to get recent files first
-    const filesWithMtime = await Promise.all(
-      jsonlFiles.map(async (f) => {
-        const s = await stat(join(projectDir, f));
-        return { file: f, mtime: s.mtimeMs };
-      })
-    );
-    filesWithMtime.sort((a, b) => b.mtime - a.mtime);
-
-    // Parse recent sessions (last 3)
-    const recentFiles = filesWithMtime.slice(0, 3);
-
-    for (const { file } of recentFiles) {
-      const content = await readFile(join(projectDir, file), "utf-8");
-      const lines = content.split("\n").filter(Boolean);
-
-      for (const line of lines) {
-        try {
-          const data: JsonlLine = JSON.parse(line);
-
-          // Extract user prompts
-          if (data.type === "user" && data.message?.content) {
-            const msg = extractUserMessage(data.message.content);
-            if (msg && recentPrompts.length < 10) {
-              recentPrompts.push(msg);
-            }
-          }
-
-          // Extract tool usage and file paths
-          if (data.type === "tool_use" || data.tool_name) {
-            const toolName = data.tool_name || "unknown";
-            toolsUsed[toolName] = (toolsUsed[toolName] || 0) + 1;
-
-            // Track files from Write/Edit/Read tools
-            const filePath = data.tool_input?.file_path;
-            if (filePath && (toolName === "Write" || toolName === "Edit")) {
-              filesModified.add(filePath);
-            }
-          }
-
-          // Also check content array for tool_use blocks
-          if (Array.isArray(data.message?.content)) {
-            for (const block of data.message.content) {
-              if (block.type === "tool_use" && block.name) {
-                toolsUsed[block.name] = (toolsUsed[block.name] || 0) + 1;
-                const input = block.input as { file_path?: string } | undefined;
-                if (input?.file_path && (block.name === "Write" || block.name === "Edit")) {
-                  filesModified.add(input.file_path);
-                }
-              }
-            }
-          }
-        } catch {
-          // skip invalid lines
-        }
-      }
+  // Recent sessions (last 3)
+  for (const record of recentSessions(stats).slice(0, 3)) {
+    for (const prompt of record.prompts) {
+      if (recentPrompts.length < 10) recentPrompts.push(prompt);
+    }
+    for (const file of record.filesModified) {
+      filesModified.add(file);
+    }
+    for (const [tool, count] of Object.entries(record.tools)) {
+      toolsUsed[tool] = (toolsUsed[tool] || 0) + count;
     }
-  } catch {
-    // project not found
   }
 
   return {
@@ -254,7 +176,7 @@ function formatDate(date: Date | null): string {
 
 export function showProjectInfo(info: ProjectInfo, summary?: string): void {
   const { stats, recentPrompts, filesModified, toolsUsed } = info;
-  const cost = calculateCost(stats.usage);
+  const cost = calculateBucketsCost(stats.buckets);
   const totalTokens = stats.usage.inputTokens + stats.usage.outputTokens;
 
   console.log();
@@ -277,12 +199,41 @@ export function showProjectInfo(info: ProjectInfo, summary?: string): void {
   console.log(pc.bold("  Stats"));
   console.log(pc.dim("  " + "-".repeat(40)));
   console.log(`  Sessions:     ${stats.sessions}`);
+  console.log(`  Resolved:     ${stats.project.resolution}${stats.project.missing ? pc.dim(" (directory missing)") : ""}`);
   console.log(`  First:        ${formatDate(stats.firstActivity)}`);
   console.log(`  Last:         ${formatDate(stats.lastActivity)}`);
   console.log(`  Tokens:       ${formatTokens(totalTokens)}`);
   console.log(`  Cost:         ${pc.green(formatCost(cost))}`);
   console.log();
 
+  // Models
+  const modelCosts = costByModel(stats.buckets);
+  const models = Object.entries(stats.models)
+    .map(([model, usage]) => ({ model, usage, cost: modelCosts[model] ?? 0 }))
+    .filter((m) => m.cost > 0 || m.usage.inputTokens + m.usage.outputTokens > 0)
+    .sort((a, b) => b.cost - a.cost);
+
+  if (models.length > 0) {
+    console.log(pc.bold("  Models"));
+    console.log(pc.dim("  " + "-".repeat(40)));
+    for (const { model, usage, cost } of models) {
+      const tokens = usage.inputTokens + usage.outputTokens;
+      console.log(`  ${padRight(model, 30)} ${padRight(formatTokens(tokens), 8)} ${pc.green(formatCost(cost))}`);
+    }
+    console.log();
+  }
+
+  // Cost per billing tier
+  const tiers = costTierRows(costTiers(stats.buckets));
+  if (tiers.length > 0) {
+    console.log(pc.bold("  Cost tiers"));
+    console.log(pc.dim("  " + "-".repeat(40)));
+    for (const [label, tierCost] of tiers) {
+      console.log(`  ${padRight(label, 30)} ${padRight("", 8)} ${pc.green(formatCost(tierCost))}`);
+    }
+    console.log();
+  }
+
   // Recent prompts
   if (recentPrompts.length > 0) {
     console.log(pc.bold("  Recent prompts"));
@@ -323,24 +274,71 @@ export function showProjectInfo(info: ProjectInfo, summary?: string): void {
   }
 }
 
-export function formatInfoCompact(info: ProjectInfo): string {
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+const SPARK_DAYS = 14;
+
+function sparkline(values: number[]): string {
+  const max = Math.max(...values);
+  return values
+    .map((v) => {
+      if (v <= 0 || max <= 0) return pc.dim(SPARK_CHARS[0]);
+      return pc.green(SPARK_CHARS[Math.min(SPARK_CHARS.length - 1, Math.floor((v / max) * SPARK_CHARS.length))]);
+    })
+    .join("");
+}
+
+// Cost per day over the last N days in the zone, oldest first
+function dailyCosts(stats: ProjectStats, days: number, time: TimeOptions): number[] {
+  const since = lastDaysStart(days, time);
+  const byDay = new Map<string, number>();
+  for (const e of getCostEntries([stats], { since }, time)) {
+    byDay.set(e.date, (byDay.get(e.date) ?? 0) + e.cost);
+  }
+  return Array.from({ length: days }, (_, i) => byDay.get(addDays(since, i)) ?? 0);
+}
+
+function clip(text: string, width: number): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > width ? line.slice(0, Math.max(0, width - 1)) + "…" : line;
+}
+
+// Long paths keep their tail, that's the part that tells files apart
+function clipPath(path: string, width: number): string {
+  return path.length > width ? "…" + path.slice(path.length - width + 1) : path;
+}
+
+// Picker preview pane, every line fits in width
+export function formatInfoCompact(info: ProjectInfo, time: TimeOptions, width: number = 60): string {
   const { stats, recentPrompts, filesModified } = info;
   const lines: string[] = [];
 
-  lines.push(pc.bold(stats.project.name));
-  lines.push(`${stats.sessions} sessions | ${formatTokens(stats.usage.inputTokens + stats.usage.outputTokens)} | ${pc.green(formatCost(calculateCost(stats.usage)))}`);
+  const costs = dailyCosts(stats, SPARK_DAYS, time);
+  const recentCost = costs.reduce((sum, c) => sum + c, 0);
+
+  lines.push(pc.bold(clip(stats.project.name, width)));
+  lines.push(pc.dim(clipPath(stats.project.path, width)));
+  lines.push(clip(`${stats.sessions} sessions | ${formatTokens(stats.usage.inputTokens + stats.usage.outputTokens)} | ${formatCost(calculateBucketsCost(stats.buckets))}`, width));
+
+  const mix = formatModelMix(stats.models, 3);
+  if (mix) lines.push(pc.dim(clip(mix, width)));
+
+  lines.push("");
+  lines.push(`${pc.dim(`${SPARK_DAYS}d`)} ${sparkline(costs)} ${pc.green(formatCost(recentCost))}`);
 
   if (recentPrompts.length > 0) {
     lines.push("");
     lines.push(pc.dim("Recent:"));
     for (const p of recentPrompts.slice(0, 3)) {
-      lines.push(`  ${p.replace(/\n/g, " ").slice(0, 50)}...`);
+      lines.push(`  ${clip(p, width - 2)}`);
     }
   }
 
   if (filesModified.length > 0) {
     lines.push("");
-    lines.push(pc.dim(`${filesModified.length} files modified`));
+    lines.push(pc.dim(`Files modified (${filesModified.length}):`));
+    for (const file of filesModified.slice(0, 4)) {
+      lines.push(`  ${clipPath(file, width - 2)}`);
+    }
   }
 
   return lines.join("\n");
@@ -0,0 +1,95 @@
+import { createReadStream } from "node:fs";
+
+// Lines longer than this are skipped instead of buffered (big tool results, images)
+const DEFAULT_MAX_LINE_BYTES = 32 * 1024 * 1024;
+const NEWLINE = 0x0a;
+
+export interface ReadOptions {
+  start?: number; // byte offset to start reading from
+  maxLineBytes?: number;
+}
+
+export interface Line {
+  text: string;
+  start: number; // byte offset of the first byte of the line
+  end: number; // byte offset just past the line (and its newline)
+  complete: boolean; // false for a trailing line without newline, may still be written
+}
+
+export interface JsonlEntry<T> {
+  data: T;
+  end: number;
+  complete: boolean;
+}
+
+export async function* readLines(file: string, options: ReadOptions = {}): AsyncGenerator<Line> {
+  const { start = 0, maxLineBytes = DEFAULT_MAX_LINE_BYTES } = options;
+  const stream = createReadStream(file, { start, highWaterMark: 64 * 1024 });
+
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+  let skipping = false; // current line exceeded maxLineBytes
+  let lineStart = start;
+  let offset = start;
+
+  try {
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      let pos = 0;
+
+      while (pos < chunk.length) {
+        const nl = chunk.indexOf(NEWLINE, pos);
+        const sliceEnd = nl === -1 ? chunk.length : nl;
+
+        if (!skipping) {
+          if (pendingBytes + (sliceEnd - pos) > maxLineBytes) {
+            skipping = true;
+            pending = [];
+            pendingBytes = 0;
+          } else if (sliceEnd > pos) {
+            pending.push(chunk.subarray(pos, sliceEnd));
+            pendingBytes += sliceEnd - pos;
+          }
+        }
+
+        if (nl === -1) break;
+
+        const end = offset + nl + 1;
+        if (!skipping && pendingBytes > 0) {
+          const text = Buffer.concat(pending, pendingBytes).toString("utf-8");
+          yield { text: text.endsWith("\r") ? text.slice(0, -1) : text, start: lineStart, end, complete: true };
+        }
+
+        pending = [];
+        pendingBytes = 0;
+        skipping = false;
+        lineStart = end;
+        pos = nl + 1;
+      }
+
+      offset += chunk.length;
+    }
+
+    if (!skipping && pendingBytes > 0) {
+      const text = Buffer.concat(pending, pendingBytes).toString("utf-8");
+      yield { text, start: lineStart, end: offset, complete: false };
+    }
+  } finally {
+    stream.destroy();
+  }
+}
+
+export async function* readJsonl<T>(
+  file: string,
+  options: ReadOptions = {}
+): AsyncGenerator<JsonlEntry<T>> {
+  for await (const line of readLines(file, options)) {
+    let data: T;
+    try {
+      data = JSON.parse(line.text);
+    } catch {
+      // skip invalid lines, a trailing one is usually still being written
+      continue;
+    }
+    yield { data, end: line.end, complete: line.complete };
+  }
+}
@@ -1,14 +1,51 @@
 import { spawn } from "node:child_process";
+import { join } from "node:path";
+import { homedir } from "node:os";
 import type { Project } from "./scanner.js";
+import type { LaunchProfile } from "./config.js";
 
-export function launchClaude(project: Project): void {
-  const child = spawn("claude", [], {
+export interface LaunchOptions {
+  continue?: boolean; // continue the most recent conversation
+  resume?: string; // session id to resume
+  profile?: LaunchProfile;
+  args?: string[]; // passed through after profile args
+}
+
+function expandHome(path: string): string {
+  if (path.startsWith("~/")) {
+    return join(homedir(), path.slice(2));
+  }
+  return path;
+}
+
+export function buildClaudeArgs(options: LaunchOptions = {}): string[] {
+  const { profile = {} } = options;
+  const args: string[] = [];
+
+  if (profile.model) args.push("--model", profile.model);
+  args.push(...(profile.args ?? []));
+
+  if (options.resume) {
+    args.push("--resume", options.resume);
+  } else if (options.continue) {
+    args.push("--continue");
+  }
+
+  args.push(...(options.args ?? []));
+  return args;
+}
+
+export function launchClaude(project: Pick<Project, "path">, options: LaunchOptions = {}): void {
+  const binary = options.profile?.binary ? expandHome(options.profile.binary) : "claude";
+
+  const child = spawn(binary, buildClaudeArgs(options), {
     cwd: project.path,
     stdio: "inherit",
+    env: { ...process.env, ...options.profile?.env },
   });
 
   child.on("error", (err) => {
-    console.error(`Failed to launch claude: ${err.message}`);
+    console.error(`Failed to launch ${binary}: ${err.message}`);
     process.exit(1);
   });
 
@@ -16,3 +53,27 @@ export function launchClaude(project: Project): void {
     process.exit(code ?? 0);
   });
 }
+
+// Hand the terminal to a program in the project dir, resolves with its exit code
+function runInProject(project: Pick<Project, "path">, command: string, args: string[], shell: boolean): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { cwd: project.path, stdio: "inherit", shell });
+    child.on("error", (err) => reject(new Error(`Failed to run ${command}: ${err.message}`)));
+    child.on("exit", (code) => resolve(code ?? 0));
+  });
+}
+
+// $VISUAL or $EDITOR may carry flags (code -w), so it runs through the shell
+export function openEditor(project: Pick<Project, "path">): Promise<number> {
+  const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+  return runInProject(project, `${editor} .`, [], true);
+}
+
+export function openShell(project: Pick<Project, "path">): Promise<number> {
+  return runInProject(project, process.env.SHELL || "/bin/sh", [], false);
+}
+
+// OSC 52 asks the terminal itself to set the clipboard, so it works over SSH too
+export function copyToClipboard(text: string): void {
+  process.stdout.write(`\x1b]52;c;${Buffer.from(text).toString("base64")}\x07`);
+}
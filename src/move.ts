@@ -0,0 +1,197 @@
+import { readdir, rename, rm, mkdir, access, rmdir } from "node:fs/promises";
+import { createWriteStream } from "node:fs";
+import { once } from "node:events";
+import { join, dirname } from "node:path";
+import type { Project } from "./scanner.js";
+import { getProjectDir, encodePath } from "./scanner.js";
+import { readLines } from "./jsonl.js";
+import { moveDir } from "./files.js";
+import { renameProjectPath } from "./config.js";
+import { renameLaunchHistory } from "./frecency.js";
+
+export interface MoveOptions {
+  rewriteCwd?: boolean; // rewrite cwd fields in the transcripts
+}
+
+export interface MoveResult {
+  movedDir: boolean; // false when the repo was already moved by hand
+  mergedHistory: boolean; // new path already had its own history
+  rewrittenFiles: number;
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Entries of the old history dir that the new one has too
+async function findCollisions(from: string, to: string): Promise<string[]> {
+  const collisions: string[] = [];
+  for (const entry of await readdir(from)) {
+    if (await exists(join(to, entry))) collisions.push(join(to, entry));
+  }
+  return collisions;
+}
+
+// Collisions are checked up front; entries moved before a failure are moved back
+async function mergeHistoryDir(from: string, to: string): Promise<void> {
+  const moved: string[] = [];
+  try {
+    for (const entry of await readdir(from)) {
+      await moveDir(join(from, entry), join(to, entry));
+      moved.push(entry);
+    }
+  } catch (err) {
+    for (const entry of moved.reverse()) {
+      await moveDir(join(to, entry), join(from, entry));
+    }
+    throw err;
+  }
+  await rmdir(from);
+}
+
+function rewritePath(value: string, oldPath: string, newPath: string): string {
+  if (value === oldPath) return newPath;
+  if (value.startsWith(oldPath + "/")) return newPath + value.slice(oldPath.length);
+  return value;
+}
+
+// Rewrites cwd fields line by line, keeping every other byte of the file as it was
+async function rewriteSessionCwd(file: string, oldPath: string, newPath: string): Promise<boolean> {
+  const tmpFile = `${file}.cclp-tmp`;
+  const output = createWriteStream(tmpFile, { encoding: "utf-8" });
+  let changed = false;
+  let lastEnd = 0;
+
+  try {
+    for await (const line of readLines(file, { maxLineBytes: Infinity })) {
+      // The reader skips blank lines, which can only be bare newlines
+      let out = "\n".repeat(line.start - lastEnd);
+      lastEnd = line.end;
+
+      let text = line.text;
+      try {
+        const data: { cwd?: string } = JSON.parse(text);
+        if (data.cwd) {
+          const cwd = rewritePath(data.cwd, oldPath, newPath);
+          if (cwd !== data.cwd) {
+            data.cwd = cwd;
+            text = JSON.stringify(data);
+            changed = true;
+          }
+        }
+      } catch {
+        // keep invalid lines as-is
+      }
+
+      // Same line ending as before, none on a final line that had none
+      const ending = line.end - line.start - Buffer.byteLength(line.text);
+      out += text + (!line.complete ? "" : ending === 2 ? "\r\n" : "\n");
+      if (!output.write(out)) await once(output, "drain");
+    }
+
+    output.end();
+    await once(output, "finish");
+    if (changed) await rename(tmpFile, file);
+  } finally {
+    output.destroy();
+    await rm(tmpFile, { force: true });
+  }
+  return changed;
+}
+
+export async function moveProject(
+  project: Project,
+  newPath: string,
+  options: MoveOptions = {}
+): Promise<MoveResult> {
+  const oldPath = project.path;
+  const result: MoveResult = { movedDir: false, mergedHistory: false, rewrittenFiles: 0 };
+
+  if (newPath === oldPath) {
+    throw new Error("Project is already at that path");
+  }
+
+  // The repo itself may have been moved outside cclp already
+  const oldExists = await exists(oldPath);
+  const newExists = await exists(newPath);
+
+  if (oldExists && newExists) {
+    throw new Error(`Target already exists: ${newPath}`);
+  }
+  if (!oldExists && !newExists) {
+    throw new Error(`Neither ${oldPath} nor ${newPath} exists`);
+  }
+  // Claude Code may have started fresh history for the new path already
+  const oldHistory = getProjectDir(project);
+  const newHistory = join(project.root, encodePath(newPath));
+  const merge = await exists(newHistory);
+
+  if (merge) {
+    const collisions = await findCollisions(oldHistory, newHistory);
+    if (collisions.length > 0) {
+      throw new Error(`Cannot merge history, ${collisions[0]} already exists`);
+    }
+  }
+
+  // Nothing has changed yet; each step below registers how to undo it, so a
+  // failure puts the repo and its history back where they were
+  const undo: (() => Promise<unknown>)[] = [];
+
+  try {
+    if (oldExists) {
+      await mkdir(dirname(newPath), { recursive: true });
+      await moveDir(oldPath, newPath);
+      result.movedDir = true;
+      undo.push(() => moveDir(newPath, oldPath));
+    }
+
+    if (merge) {
+      const entries = await readdir(oldHistory);
+      await mergeHistoryDir(oldHistory, newHistory);
+      result.mergedHistory = true;
+      undo.push(async () => {
+        await mkdir(oldHistory);
+        for (const entry of entries) await moveDir(join(newHistory, entry), join(oldHistory, entry));
+      });
+    } else {
+      await moveDir(oldHistory, newHistory);
+      undo.push(() => moveDir(newHistory, oldHistory));
+    }
+
+    if (options.rewriteCwd) {
+      const files = await readdir(newHistory);
+      for (const file of files.filter((f) => f.endsWith(".jsonl"))) {
+        const path = join(newHistory, file);
+        if (await rewriteSessionCwd(path, oldPath, newPath)) {
+          result.rewrittenFiles++;
+          undo.push(() => rewriteSessionCwd(path, newPath, oldPath));
+        }
+      }
+    }
+
+    await renameProjectPath(oldPath, newPath);
+    undo.push(() => renameProjectPath(newPath, oldPath));
+    await renameLaunchHistory(oldPath, newPath);
+  } catch (err) {
+    // Keep undoing after a failed step, then report what could not be put back
+    const failed: string[] = [];
+    for (const step of undo.reverse()) {
+      try {
+        await step();
+      } catch (undoErr) {
+        failed.push((undoErr as Error).message);
+      }
+    }
+    if (failed.length > 0) {
+      throw new Error(`${(err as Error).message}; rollback incomplete: ${failed.join("; ")}`);
+    }
+    throw new Error(`${(err as Error).message}, nothing was moved`);
+  }
+
+  return result;
+}
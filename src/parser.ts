@@ -1,13 +1,32 @@
-import { readdir, readFile } from "node:fs/promises";
-import { join } from "node:path";
 import type { Project } from "./scanner.js";
-import { getProjectDir } from "./scanner.js";
+import { readJsonl } from "./jsonl.js";
 
 export interface TokenUsage {
   inputTokens: number;
   outputTokens: number;
   cacheCreationInputTokens: number;
+  cacheCreation1hInputTokens: number; // part of cacheCreationInputTokens written with a 1h TTL
   cacheReadInputTokens: number;
+  longContext?: TokenUsage; // part of the above from requests billed at long-context rates
+}
+
+// UTC quarter hour (YYYY-MM-DDTHH:MM) -> model -> usage. Fine enough to re-bucket
+// into days of any time zone, including ones with a :30 or :45 offset
+export type TimeBuckets = Record<string, Record<string, TokenUsage>>;
+
+// Everything list, cost, info and preview need from one session, built in a single pass
+export interface SessionRecord {
+  id: string;
+  firstActivity: Date | null;
+  lastActivity: Date | null;
+  usage: TokenUsage;
+  models: Record<string, TokenUsage>; // in order of first use
+  buckets: TimeBuckets;
+  prompts: string[]; // first user prompts, truncated
+  tools: Record<string, number>;
+  filesModified: string[];
+  messageCounts: Record<string, number>; // by transcript line type, streamed duplicates counted once
+  gitBranch: string | null; // latest branch seen
 }
 
 export interface ProjectStats {
@@ -16,85 +35,271 @@ export interface ProjectStats {
   firstActivity: Date | null;
   lastActivity: Date | null;
   usage: TokenUsage;
+  models: Record<string, TokenUsage>; // usage per model id
+  buckets: TimeBuckets;
+  records: SessionRecord[];
 }
 
+const MAX_PROMPTS = 10;
+const PROMPT_LENGTH = 100;
+// Streamed duplicates sit next to each other, so a short tail of seen ids is enough to resume
+const SEEN_TAIL = 200;
+
+// Requests with a larger prompt are billed at long-context rates
+export const LONG_CONTEXT_THRESHOLD = 200_000;
+
 interface JsonlMessage {
   timestamp?: string;
   type?: string;
+  requestId?: string;
+  gitBranch?: string;
   message?: {
+    id?: string;
+    role?: string;
+    content?: string | { type: string; text?: string; name?: string; input?: unknown }[];
     usage?: {
       input_tokens?: number;
       output_tokens?: number;
       cache_creation_input_tokens?: number;
       cache_read_input_tokens?: number;
+      cache_creation?: {
+        ephemeral_5m_input_tokens?: number;
+        ephemeral_1h_input_tokens?: number;
+      };
     };
     model?: string;
   };
+  tool_name?: string;
+  tool_input?: {
+    file_path?: string;
+  };
 }
 
-export async function parseProject(project: Project): Promise<ProjectStats> {
-  const projectDir = getProjectDir(project);
-  const stats: ProjectStats = {
-    project,
-    sessions: 0,
+export function emptyUsage(): TokenUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheCreation1hInputTokens: 0,
+    cacheReadInputTokens: 0,
+  };
+}
+
+export function addUsage(target: TokenUsage, usage: TokenUsage): void {
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.cacheCreationInputTokens += usage.cacheCreationInputTokens;
+  target.cacheCreation1hInputTokens += usage.cacheCreation1hInputTokens;
+  target.cacheReadInputTokens += usage.cacheReadInputTokens;
+  if (usage.longContext) {
+    if (!target.longContext) target.longContext = emptyUsage();
+    addUsage(target.longContext, usage.longContext);
+  }
+}
+
+export function addToBucket(buckets: Record<string, TokenUsage>, key: string, usage: TokenUsage): void {
+  if (!buckets[key]) buckets[key] = emptyUsage();
+  addUsage(buckets[key], usage);
+}
+
+export function totalUsage(models: Record<string, TokenUsage>): TokenUsage {
+  const total = emptyUsage();
+  for (const usage of Object.values(models)) addUsage(total, usage);
+  return total;
+}
+
+export function addBuckets(target: TimeBuckets, buckets: TimeBuckets): void {
+  for (const [slot, models] of Object.entries(buckets)) {
+    if (!target[slot]) target[slot] = {};
+    for (const [model, usage] of Object.entries(models)) {
+      addToBucket(target[slot], model, usage);
+    }
+  }
+}
+
+// Start of the quarter hour a timestamp falls in, as a TimeBuckets key
+export function bucketKey(ts: Date): string {
+  const minutes = Math.floor(ts.getUTCMinutes() / 15) * 15;
+  return `${ts.toISOString().slice(0, 14)}${String(minutes).padStart(2, "0")}`;
+}
+
+// Instant a TimeBuckets key starts at
+export function bucketStart(key: string): Date {
+  return new Date(`${key}:00Z`);
+}
+
+function extractUserMessage(content: unknown): string | null {
+  if (typeof content === "string") {
+    return content.slice(0, PROMPT_LENGTH);
+  }
+  if (Array.isArray(content)) {
+    const textBlock = content.find((b) => b.type === "text" && b.text);
+    if (textBlock?.text) {
+      return textBlock.text.slice(0, PROMPT_LENGTH);
+    }
+  }
+  return null;
+}
+
+function isFileEdit(toolName: string): boolean {
+  return toolName === "Write" || toolName === "Edit";
+}
+
+export function emptyRecord(id: string): SessionRecord {
+  return {
+    id,
     firstActivity: null,
     lastActivity: null,
-    usage: {
-      inputTokens: 0,
-      outputTokens: 0,
-      cacheCreationInputTokens: 0,
-      cacheReadInputTokens: 0,
-    },
+    usage: emptyUsage(),
+    models: {},
+    buckets: {},
+    prompts: [],
+    tools: {},
+    filesModified: [],
+    messageCounts: {},
+    gitBranch: null,
   };
+}
 
-  try {
-    const files = await readdir(projectDir);
-    const jsonlFiles = files.filter((f) => f.endsWith(".jsonl"));
-    stats.sessions = jsonlFiles.length;
-
-    for (const file of jsonlFiles) {
-      const content = await readFile(join(projectDir, file), "utf-8");
-      const lines = content.split("\n").filter(Boolean);
-
-      for (const line of lines) {
-        try {
-          const data: JsonlMessage = JSON.parse(line);
-
-          // Track timestamps
-          if (data.timestamp) {
-            const ts = new Date(data.timestamp);
-            if (!stats.firstActivity || ts < stats.firstActivity) {
-              stats.firstActivity = ts;
-            }
-            if (!stats.lastActivity || ts > stats.lastActivity) {
-              stats.lastActivity = ts;
-            }
-          }
-
-          // Aggregate token usage
-          const usage = data.message?.usage;
-          if (usage) {
-            stats.usage.inputTokens += usage.input_tokens || 0;
-            stats.usage.outputTokens += usage.output_tokens || 0;
-            stats.usage.cacheCreationInputTokens +=
-              usage.cache_creation_input_tokens || 0;
-            stats.usage.cacheReadInputTokens +=
-              usage.cache_read_input_tokens || 0;
-          }
-        } catch {
-          // Skip invalid JSON lines
+export interface ParsedSession {
+  record: SessionRecord;
+  offset: number; // byte offset to resume from once the file grows
+  seen: string[]; // latest message keys, to keep deduplicating after a resume
+}
+
+export interface ParseOptions {
+  raw?: boolean; // count every line's usage, even repeated ones
+}
+
+// Claude Code writes one line per content block, each repeating the message usage
+function messageKey(data: JsonlMessage): string | null {
+  const messageId = data.message?.id;
+  if (!messageId && !data.requestId) return null;
+  return `${messageId ?? ""}:${data.requestId ?? ""}`;
+}
+
+// Pass a previous result to only parse what was appended since
+export async function parseSession(
+  file: string,
+  id: string,
+  previous?: ParsedSession,
+  options: ParseOptions = {}
+): Promise<ParsedSession> {
+  const record: SessionRecord = previous ? structuredClone(previous.record) : emptyRecord(id);
+  const files = new Set<string>(record.filesModified);
+  const seen = new Set<string>(previous?.seen);
+  let offset = previous?.offset ?? 0;
+
+  for await (const { data, end } of readJsonl<JsonlMessage>(file, { start: offset })) {
+    offset = end;
+    let ts: Date | null = null;
+
+    // Track timestamps, ignoring ones that don't parse
+    if (data.timestamp) ts = new Date(data.timestamp);
+    if (ts && isNaN(ts.getTime())) ts = null;
+    if (ts) {
+      if (!record.firstActivity || ts < record.firstActivity) {
+        record.firstActivity = ts;
+      }
+      if (!record.lastActivity || ts > record.lastActivity) {
+        record.lastActivity = ts;
+      }
+    }
+
+    if (data.gitBranch) record.gitBranch = data.gitBranch;
+
+    const rawUsage = data.message?.usage;
+    const key = options.raw ? null : messageKey(data);
+    const duplicate = key !== null && seen.has(key);
+    if (key) seen.add(key);
+
+    if (data.type && !duplicate) {
+      record.messageCounts[data.type] = (record.messageCounts[data.type] || 0) + 1;
+    }
+
+    // Aggregate token usage
+    if (rawUsage && !duplicate) {
+      const usage: TokenUsage = {
+        inputTokens: rawUsage.input_tokens || 0,
+        outputTokens: rawUsage.output_tokens || 0,
+        cacheCreationInputTokens: rawUsage.cache_creation_input_tokens || 0,
+        cacheCreation1hInputTokens: rawUsage.cache_creation?.ephemeral_1h_input_tokens || 0,
+        cacheReadInputTokens: rawUsage.cache_read_input_tokens || 0,
+      };
+      const promptTokens = usage.inputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens;
+      if (promptTokens > LONG_CONTEXT_THRESHOLD) usage.longContext = { ...usage };
+      addUsage(record.usage, usage);
+      const model = data.message?.model || "unknown";
+      addToBucket(record.models, model, usage);
+      if (ts) {
+        const slot = bucketKey(ts);
+        if (!record.buckets[slot]) record.buckets[slot] = {};
+        addToBucket(record.buckets[slot], model, usage);
+      }
+    }
+
+    // Extract user prompts
+    if (data.type === "user" && data.message?.content && record.prompts.length < MAX_PROMPTS) {
+      const msg = extractUserMessage(data.message.content);
+      if (msg) record.prompts.push(msg);
+    }
+
+    // Extract tool usage and file paths
+    if (data.type === "tool_use" || data.tool_name) {
+      const toolName = data.tool_name || "unknown";
+      record.tools[toolName] = (record.tools[toolName] || 0) + 1;
+      const filePath = data.tool_input?.file_path;
+      if (filePath && isFileEdit(toolName)) files.add(filePath);
+    }
+
+    // Also check content array for tool_use blocks
+    if (Array.isArray(data.message?.content)) {
+      for (const block of data.message.content) {
+        if (block.type === "tool_use" && block.name) {
+          record.tools[block.name] = (record.tools[block.name] || 0) + 1;
+          const input = block.input as { file_path?: string } | undefined;
+          if (input?.file_path && isFileEdit(block.name)) files.add(input.file_path);
         }
       }
     }
-  } catch {
-    // Error reading project
+  }
+
+  record.filesModified = Array.from(files);
+  return { record, offset, seen: Array.from(seen).slice(-SEEN_TAIL) };
+}
+
+export function buildProjectStats(project: Project, records: SessionRecord[]): ProjectStats {
+  const stats: ProjectStats = {
+    project,
+    sessions: records.length,
+    firstActivity: null,
+    lastActivity: null,
+    usage: emptyUsage(),
+    models: {},
+    buckets: {},
+    records,
+  };
+
+  for (const r of records) {
+    if (r.firstActivity && (!stats.firstActivity || r.firstActivity < stats.firstActivity)) {
+      stats.firstActivity = r.firstActivity;
+    }
+    if (r.lastActivity && (!stats.lastActivity || r.lastActivity > stats.lastActivity)) {
+      stats.lastActivity = r.lastActivity;
+    }
+    addUsage(stats.usage, r.usage);
+    for (const [model, usage] of Object.entries(r.models)) {
+      addToBucket(stats.models, model, usage);
+    }
+    addBuckets(stats.buckets, r.buckets);
   }
 
   return stats;
 }
 
-export async function parseAllProjects(
-  projects: Project[]
-): Promise<ProjectStats[]> {
-  return Promise.all(projects.map(parseProject));
+// Most recently active session first
+export function recentSessions(stats: ProjectStats): SessionRecord[] {
+  return [...stats.records].sort(
+    (a, b) => (b.lastActivity?.getTime() ?? 0) - (a.lastActivity?.getTime() ?? 0)
+  );
 }
@@ -1,51 +1,457 @@
-import type { TokenUsage } from "./parser.js";
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import pc from "picocolors";
+import type { TokenUsage, TimeBuckets } from "./parser.js";
+import { loadConfig } from "./config.js";
+
+const CCLP_DIR = join(homedir(), ".cclp");
+const PRICING_FILE = join(CCLP_DIR, "pricing.json");
 
 // Anthropic pricing per 1M tokens (USD)
-interface ModelPricing {
+export interface TierRates {
   input: number;
   output: number;
-  cacheWrite: number;
+  cacheWrite: number; // 5 minute TTL
+  cacheWrite1h?: number; // 1 hour TTL, 2x input when not set
   cacheRead: number;
 }
 
+export interface ModelPricing extends TierRates {
+  longContext?: TierRates; // requests with a prompt over 200K tokens
+}
+
+// Rates that apply from a UTC day onwards, or since forever without one
+export interface PricingPeriod extends ModelPricing {
+  from?: string; // YYYY-MM-DD
+}
+
+// ~/.cclp/pricing.json: model id -> periods, overriding or extending the built-in table
+export interface PricingFile {
+  models: Record<string, PricingPeriod[]>;
+}
+
+const OPUS_4: ModelPricing = { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 };
+const OPUS_4_5: ModelPricing = { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 };
+const SONNET: ModelPricing = { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 };
+const SONNET_4: ModelPricing = {
+  ...SONNET,
+  longContext: { input: 6, output: 22.5, cacheWrite: 7.5, cacheRead: 0.6 },
+};
+const HAIKU_3: ModelPricing = { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 };
+const HAIKU_3_5: ModelPricing = { input: 0.8, output: 4, cacheWrite: 1.0, cacheRead: 0.08 };
+const HAIKU_4_5: ModelPricing = { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 };
+
+// Keyed by the model ids Claude Code writes to transcripts
 const PRICING: Record<string, ModelPricing> = {
-  "opus-4": {
-    input: 15,
-    output: 75,
-    cacheWrite: 18.75,
-    cacheRead: 1.5,
-  },
-  "sonnet-4": {
-    input: 3,
-    output: 15,
-    cacheWrite: 3.75,
-    cacheRead: 0.3,
-  },
-  "haiku-4": {
-    input: 0.8,
-    output: 4,
-    cacheWrite: 1.0,
-    cacheRead: 0.08,
-  },
+  "claude-opus-4-5-20251101": OPUS_4_5,
+  "claude-opus-4-1-20250805": OPUS_4,
+  "claude-opus-4-20250514": OPUS_4,
+  "claude-3-opus-20240229": OPUS_4,
+  "claude-sonnet-4-5-20250929": SONNET_4,
+  "claude-sonnet-4-20250514": SONNET_4,
+  "claude-3-7-sonnet-20250219": SONNET,
+  "claude-3-5-sonnet-20241022": SONNET,
+  "claude-3-5-sonnet-20240620": SONNET,
+  "claude-haiku-4-5-20251001": HAIKU_4_5,
+  "claude-3-5-haiku-20241022": HAIKU_3_5,
+  "claude-3-haiku-20240307": HAIKU_3,
 };
 
-// Default to sonnet-4 pricing (most common)
-const DEFAULT_MODEL = "sonnet-4";
+// Default to sonnet pricing (most common), unless Config.defaultModel says otherwise
+const BUILTIN_DEFAULT_MODEL = "claude-sonnet-4-20250514";
+
+// Placeholder Claude Code writes for locally generated messages, never billed
+const SYNTHETIC_MODEL = "<synthetic>";
+
+let custom: Record<string, PricingPeriod[]> = {};
+let defaultModel = BUILTIN_DEFAULT_MODEL;
+
+export type ModelMatch = "exact" | "dated" | "family" | "default";
+
+export interface ResolvedModel {
+  id: string; // pricing entry used
+  match: ModelMatch;
+}
+
+const resolved = new Map<string, ResolvedModel>();
+
+async function ensureDir(): Promise<void> {
+  try {
+    await mkdir(CCLP_DIR, { recursive: true });
+  } catch {
+    // exists
+  }
+}
+
+// No file means no overrides; a broken one throws, so it's never saved over
+async function loadPricingFile(): Promise<PricingFile> {
+  let content: string;
+  try {
+    content = await readFile(PRICING_FILE, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return { models: {} };
+    throw new Error(`Cannot read ${PRICING_FILE}: ${(err as Error).message}`);
+  }
+  try {
+    return validatePricingFile(JSON.parse(content));
+  } catch (err) {
+    throw new Error(`Invalid ${PRICING_FILE}: ${(err as Error).message}`);
+  }
+}
+
+async function savePricingFile(file: PricingFile): Promise<void> {
+  await ensureDir();
+  await writeFile(PRICING_FILE, JSON.stringify(file, null, 2), "utf-8");
+}
+
+function isRate(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function validateRates(model: string, rates: TierRates): TierRates {
+  for (const field of ["input", "output", "cacheWrite", "cacheRead"] as const) {
+    if (!isRate(rates[field])) {
+      throw new Error(`Invalid ${field} rate for ${model}`);
+    }
+  }
+  if (rates.cacheWrite1h !== undefined && !isRate(rates.cacheWrite1h)) {
+    throw new Error(`Invalid cacheWrite1h rate for ${model}`);
+  }
+  const { input, output, cacheWrite, cacheWrite1h, cacheRead } = rates;
+  return cacheWrite1h === undefined
+    ? { input, output, cacheWrite, cacheRead }
+    : { input, output, cacheWrite, cacheWrite1h, cacheRead };
+}
+
+function validatePeriod(model: string, period: PricingPeriod): PricingPeriod {
+  if (period.from !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(period.from)) {
+    throw new Error(`Invalid from date for ${model}: ${period.from}, expected YYYY-MM-DD`);
+  }
+  const result: PricingPeriod = validateRates(model, period);
+  if (period.longContext) result.longContext = validateRates(`${model} long context`, period.longContext);
+  return period.from ? { from: period.from, ...result } : result;
+}
+
+function validatePricingFile(data: unknown): PricingFile {
+  const models = (data as PricingFile | null)?.models;
+  if (!models || typeof models !== "object") {
+    throw new Error('Pricing file needs a "models" object');
+  }
+  const file: PricingFile = { models: {} };
+  for (const [model, periods] of Object.entries(models)) {
+    if (!Array.isArray(periods)) throw new Error(`Pricing for ${model} must be a list of periods`);
+    file.models[model] = periods.map((p) => validatePeriod(model, p));
+  }
+  return file;
+}
+
+// Read overrides and the configured default model, once at startup
+export async function loadPricing(): Promise<void> {
+  const config = await loadConfig();
+  try {
+    custom = (await loadPricingFile()).models;
+  } catch (err) {
+    console.error(pc.yellow(`${(err as Error).message}, using built-in rates only`));
+    custom = {};
+  }
+  defaultModel = config.defaultModel || BUILTIN_DEFAULT_MODEL;
+  resolved.clear();
+}
+
+function addPeriod(periods: PricingPeriod[], period: PricingPeriod): PricingPeriod[] {
+  return [...periods.filter((p) => p.from !== period.from), period];
+}
+
+export async function setModelPricing(model: string, period: PricingPeriod): Promise<void> {
+  const file = await loadPricingFile();
+  file.models[model] = addPeriod(file.models[model] ?? [], validatePeriod(model, period));
+  await savePricingFile(file);
+}
+
+// Merge another pricing file into ours, returns the number of periods imported
+export async function importPricing(path: string): Promise<number> {
+  const imported = validatePricingFile(JSON.parse(await readFile(path, "utf-8")));
+  const file = await loadPricingFile();
+  let count = 0;
+  for (const [model, periods] of Object.entries(imported.models)) {
+    for (const period of periods) {
+      file.models[model] = addPeriod(file.models[model] ?? [], period);
+      count++;
+    }
+  }
+  await savePricingFile(file);
+  return count;
+}
+
+// Oldest first; a custom period without a date replaces the built-in rates
+function periodsFor(id: string): PricingPeriod[] {
+  let periods: PricingPeriod[] = PRICING[id] ? [PRICING[id]] : [];
+  for (const period of custom[id] ?? []) {
+    periods = addPeriod(periods, period);
+  }
+  return periods.sort((a, b) => (a.from ?? "").localeCompare(b.from ?? ""));
+}
+
+function knownModels(): string[] {
+  return Array.from(new Set([...Object.keys(PRICING), ...Object.keys(custom)]));
+}
+
+// Rates in effect on a UTC day (YYYY-MM-DD), today's rates without one
+function pricingAt(id: string, date?: string): ModelPricing {
+  const periods = periodsFor(id);
+  const day = (date ?? new Date().toISOString()).slice(0, 10);
+  const current = periods.filter((p) => !p.from || p.from <= day).pop();
+  return current ?? periods[0] ?? PRICING[BUILTIN_DEFAULT_MODEL];
+}
+
+// Strip provider prefixes and suffixes: us.anthropic.claude-opus-4-1-20250805-v1:0,
+// claude-sonnet-4@20250514, claude-sonnet-4-20250514[1m]
+function normalizeModelId(model: string): string {
+  let id = model.toLowerCase().trim();
+  const start = id.indexOf("claude-");
+  if (start > 0) id = id.slice(start);
+  return id
+    .replace(/\[.*\]$/, "")
+    .replace(/-v\d+(:\d+)?$/, "")
+    .replace("@", "-");
+}
+
+function stripDate(id: string): string {
+  return id.replace(/-\d{8}$/, "");
+}
+
+function modelFamily(id: string): string | null {
+  return id.match(/opus|sonnet|haiku/)?.[0] ?? null;
+}
+
+// Newest dated entry first, so fallbacks land on the latest snapshot
+function entriesByDate(): string[] {
+  return knownModels().sort((a, b) => (b.match(/\d{8}$/)?.[0] ?? "").localeCompare(a.match(/\d{8}$/)?.[0] ?? ""));
+}
+
+function resolveUncached(model: string): ResolvedModel {
+  if (periodsFor(model).length > 0) return { id: model, match: "exact" };
+  const id = normalizeModelId(model);
+  if (periodsFor(id).length > 0) return { id, match: "exact" };
+
+  // Undated alias or a snapshot newer than the table: latest entry of the same model
+  const base = stripDate(id);
+  const dated = entriesByDate().find((key) => stripDate(key) === base);
+  if (dated) return { id: dated, match: "dated" };
+
+  // Unknown version of a known family
+  const family = modelFamily(id);
+  if (family) {
+    const latest = entriesByDate().find((key) => modelFamily(key) === family);
+    if (latest) return { id: latest, match: "family" };
+  }
+
+  const fallback = defaultModel === model ? BUILTIN_DEFAULT_MODEL : resolveModel(defaultModel).id;
+  return { id: fallback, match: "default" };
+}
+
+// Map a transcript model id (claude-opus-4-1-20250805) to its pricing entry
+export function resolveModel(model: string): ResolvedModel {
+  let result = resolved.get(model);
+  if (!result) {
+    result = resolveUncached(model);
+    resolved.set(model, result);
+  }
+  return result;
+}
+
+// Models priced by guesswork this run, for a warning after reports
+export function getUnknownModels(): { model: string; pricedAs: string }[] {
+  return Array.from(resolved.entries())
+    .filter(([model, r]) => model !== SYNTHETIC_MODEL && (r.match === "family" || r.match === "default"))
+    .map(([model, r]) => ({ model, pricedAs: r.id }));
+}
+
+export function warnUnknownModels(): void {
+  for (const { model, pricedAs } of getUnknownModels()) {
+    console.error(pc.yellow(`Unknown model "${model}", priced as ${pricedAs}`));
+  }
+}
+
+export interface PricingRow extends PricingPeriod {
+  model: string;
+  source: "built-in" | "custom";
+}
+
+// Every period of every known model, for `cclp pricing list`
+export function listPricing(): PricingRow[] {
+  return knownModels()
+    .sort()
+    .flatMap((model) =>
+      periodsFor(model).map((period) => ({
+        model,
+        ...period,
+        source: (custom[model]?.includes(period) ? "custom" : "built-in") as PricingRow["source"],
+      }))
+    );
+}
+
+export function getDefaultModel(): string {
+  return defaultModel;
+}
+
+function padRight(str: string, len: number): string {
+  return str.length >= len ? str.slice(0, len) : str + " ".repeat(len - str.length);
+}
+
+export function showPricing(): void {
+  console.log(
+    pc.bold(
+      `${padRight("MODEL", 30)} ${padRight("FROM", 12)} ${padRight("INPUT", 8)} ${padRight("OUTPUT", 8)} ${padRight("CACHE 5M", 8)} ${padRight("CACHE 1H", 8)} ${padRight("CACHE R", 8)} SOURCE`
+    )
+  );
+  console.log(pc.dim("-".repeat(99)));
 
-export function calculateCost(
-  usage: TokenUsage,
-  model: string = DEFAULT_MODEL
-): number {
-  const pricing = PRICING[model] || PRICING[DEFAULT_MODEL];
+  const formatRates = (r: TierRates) =>
+    [r.input, r.output, r.cacheWrite, r.cacheWrite1h ?? r.input * 2, r.cacheRead].map((n) => padRight(`$${n}`, 8)).join(" ");
+
+  for (const row of listPricing()) {
+    const source = row.source === "custom" ? pc.cyan(row.source) : pc.dim(row.source);
+    console.log(`${padRight(row.model, 30)} ${padRight(row.from ?? "-", 12)} ${formatRates(row)} ${source}`);
+    if (row.longContext) {
+      console.log(pc.dim(`${padRight("  >200K prompt", 30)} ${padRight("", 12)} ${formatRates(row.longContext)}`));
+    }
+  }
+
+  console.log(pc.dim("-".repeat(99)));
+  console.log(pc.dim(`Unknown models are priced as ${resolveModel(defaultModel).id}`));
+}
+
+// Cost per billing tier. Every token is counted at base rates, longContext is
+// what >200K requests cost on top of that, so the tiers add up to the total.
+export interface CostTiers {
+  input: number;
+  output: number;
+  cacheWrite5m: number;
+  cacheWrite1h: number;
+  cacheRead: number;
+  longContext: number;
+}
+
+function emptyTiers(): CostTiers {
+  return { input: 0, output: 0, cacheWrite5m: 0, cacheWrite1h: 0, cacheRead: 0, longContext: 0 };
+}
+
+function tierTotal(tiers: CostTiers): number {
+  return tiers.input + tiers.output + tiers.cacheWrite5m + tiers.cacheWrite1h + tiers.cacheRead + tiers.longContext;
+}
+
+function ratedTiers(usage: TokenUsage, rates: TierRates): CostTiers {
   const M = 1_000_000;
+  const cache1h = usage.cacheCreation1hInputTokens;
+  return {
+    input: (usage.inputTokens / M) * rates.input,
+    output: (usage.outputTokens / M) * rates.output,
+    cacheWrite5m: (Math.max(0, usage.cacheCreationInputTokens - cache1h) / M) * rates.cacheWrite,
+    cacheWrite1h: (cache1h / M) * (rates.cacheWrite1h ?? rates.input * 2),
+    cacheRead: (usage.cacheReadInputTokens / M) * rates.cacheRead,
+    longContext: 0,
+  };
+}
+
+function costTiersFor(usage: TokenUsage, model: string, date?: string): CostTiers {
+  if (model === SYNTHETIC_MODEL) return emptyTiers();
+
+  const pricing = pricingAt(resolveModel(model).id, date);
+  const tiers = ratedTiers(usage, pricing);
+  // Models without long-context rates bill those requests at base rates
+  if (usage.longContext && pricing.longContext) {
+    tiers.longContext =
+      tierTotal(ratedTiers(usage.longContext, pricing.longContext)) - tierTotal(ratedTiers(usage.longContext, pricing));
+  }
+  return tiers;
+}
+
+// Pass the UTC day the usage happened on to apply the rates of that day
+export function calculateCost(usage: TokenUsage, model: string, date?: string): number {
+  return tierTotal(costTiersFor(usage, model, date));
+}
+
+export function costTiers(buckets: TimeBuckets): CostTiers {
+  const total = emptyTiers();
+  for (const [date, models] of Object.entries(buckets)) {
+    for (const [model, usage] of Object.entries(models)) {
+      const tiers = costTiersFor(usage, model, date);
+      for (const key of Object.keys(total) as (keyof CostTiers)[]) {
+        total[key] += tiers[key];
+      }
+    }
+  }
+  return total;
+}
+
+// Labelled rows for reports, skipping empty tiers
+export function costTierRows(tiers: CostTiers): [string, number][] {
+  const rows: [string, number][] = [
+    ["Input", tiers.input],
+    ["Output", tiers.output],
+    ["Cache write 5m", tiers.cacheWrite5m],
+    ["Cache write 1h", tiers.cacheWrite1h],
+    ["Cache read", tiers.cacheRead],
+    ["Long context premium", tiers.longContext],
+  ];
+  return rows.filter(([, cost]) => cost > 0);
+}
+
+export function calculateModelsCost(models: Record<string, TokenUsage>, date?: string): number {
+  let total = 0;
+  for (const [model, usage] of Object.entries(models)) {
+    total += calculateCost(usage, model, date);
+  }
+  return total;
+}
+
+// Each time bucket at the rates of its (UTC) day
+export function calculateBucketsCost(buckets: TimeBuckets): number {
+  let total = 0;
+  for (const [date, models] of Object.entries(buckets)) {
+    total += calculateModelsCost(models, date);
+  }
+  return total;
+}
+
+export function costByModel(buckets: TimeBuckets): Record<string, number> {
+  const costs: Record<string, number> = {};
+  for (const [date, models] of Object.entries(buckets)) {
+    for (const [model, usage] of Object.entries(models)) {
+      costs[model] = (costs[model] || 0) + calculateCost(usage, model, date);
+    }
+  }
+  return costs;
+}
+
+export function formatModel(model: string | null): string {
+  if (!model) return "";
+  if (model.includes("opus")) return "opus";
+  if (model.includes("sonnet")) return "sonnet";
+  if (model.includes("haiku")) return "haiku";
+  return model.split("-")[0] || model;
+}
 
-  const inputCost = (usage.inputTokens / M) * pricing.input;
-  const outputCost = (usage.outputTokens / M) * pricing.output;
-  const cacheWriteCost =
-    (usage.cacheCreationInputTokens / M) * pricing.cacheWrite;
-  const cacheReadCost = (usage.cacheReadInputTokens / M) * pricing.cacheRead;
+// Share of cost per model family, e.g. "opus 82% sonnet 18%"
+export function formatModelMix(models: Record<string, TokenUsage>, limit: number = 2): string {
+  const byFamily: Record<string, number> = {};
+  let total = 0;
+  for (const [model, usage] of Object.entries(models)) {
+    const cost = calculateCost(usage, model);
+    if (cost === 0) continue;
+    const family = formatModel(model);
+    byFamily[family] = (byFamily[family] || 0) + cost;
+    total += cost;
+  }
+  if (total === 0) return "";
 
-  return inputCost + outputCost + cacheWriteCost + cacheReadCost;
+  return Object.entries(byFamily)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([family, cost]) => `${family} ${Math.round((cost / total) * 100)}%`)
+    .join(" ");
 }
 
 export function formatCost(cost: number): string {
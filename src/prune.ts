@@ -0,0 +1,161 @@
+import { readdir, stat, rm, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import pc from "picocolors";
+import type { Project } from "./scanner.js";
+import { getProjectDir } from "./scanner.js";
+import { moveDir } from "./files.js";
+import { vimSelect } from "./vim-select.js";
+
+const CCLP_DIR = join(homedir(), ".cclp");
+const TRASH_DIR = join(CCLP_DIR, "trash");
+
+export interface Orphan {
+  project: Project;
+  dir: string;
+  sizeBytes: number;
+  sessions: number;
+  lastActivity: Date | null;
+}
+
+export interface PruneOptions {
+  dryRun?: boolean;
+  trash?: boolean; // move to ~/.cclp/trash instead of deleting
+}
+
+async function getDirSize(dir: string): Promise<number> {
+  let total = 0;
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        total += await getDirSize(fullPath);
+      } else {
+        total += (await stat(fullPath)).size;
+      }
+    }
+  } catch {
+    // unreadable
+  }
+  return total;
+}
+
+export async function getOrphanInfo(project: Project): Promise<Orphan> {
+  const dir = getProjectDir(project);
+  const orphan: Orphan = {
+    project,
+    dir,
+    sizeBytes: await getDirSize(dir),
+    sessions: 0,
+    lastActivity: null,
+  };
+
+  try {
+    const files = await readdir(dir);
+    const jsonlFiles = files.filter((f) => f.endsWith(".jsonl"));
+    orphan.sessions = jsonlFiles.length;
+
+    // File mtimes are enough here, no need to parse the transcripts
+    for (const file of jsonlFiles) {
+      const s = await stat(join(dir, file));
+      if (!orphan.lastActivity || s.mtime > orphan.lastActivity) {
+        orphan.lastActivity = s.mtime;
+      }
+    }
+  } catch {
+    // unreadable
+  }
+
+  return orphan;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)}G`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)}M`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)}K`;
+  return `${bytes}B`;
+}
+
+function padRight(str: string, len: number): string {
+  return str.length >= len ? str.slice(0, len) : str + " ".repeat(len - str.length);
+}
+
+export function showOrphans(orphans: Orphan[]): void {
+  if (orphans.length === 0) {
+    console.log(pc.green("No orphaned projects"));
+    return;
+  }
+
+  const sorted = [...orphans].sort((a, b) => b.sizeBytes - a.sizeBytes);
+
+  console.log(
+    pc.bold(`${padRight("PATH", 50)} ${padRight("SIZE", 8)} ${padRight("SESSIONS", 10)} ${padRight("LAST", 10)} ROOT`)
+  );
+  console.log(pc.dim("-".repeat(80)));
+
+  let totalSize = 0;
+  for (const o of sorted) {
+    totalSize += o.sizeBytes;
+    const last = o.lastActivity ? o.lastActivity.toISOString().slice(0, 10) : "never";
+    const path = padRight(o.project.path, 50);
+    console.log(
+      `${o.project.resolution === "unresolved" ? pc.dim(path) : path} ${padRight(formatBytes(o.sizeBytes), 8)} ${padRight(String(o.sessions), 10)} ${padRight(last, 10)} ${pc.dim(o.project.root)}`
+    );
+  }
+
+  console.log(pc.dim("-".repeat(80)));
+  console.log(`${orphans.length} orphaned, ${formatBytes(totalSize)} total`);
+}
+
+// Nothing checked to start with, deleting history should be a choice; null when cancelled
+export async function pickOrphans(orphans: Orphan[]): Promise<Orphan[] | null> {
+  const result = await vimSelect({
+    message: "Select orphans to prune:",
+    choices: orphans.map((o) => ({
+      name: `${o.project.path} ${pc.dim(`${formatBytes(o.sizeBytes)}, ${o.sessions} sessions, in ${o.project.root}`)}`,
+      value: o,
+      search: o.project.path,
+    })),
+    pageSize: 15,
+    multi: true,
+    actions: [],
+  });
+  return result?.values ?? null;
+}
+
+// Stops at the first dir that can't be removed; the ones before it are gone already
+export async function pruneOrphans(
+  orphans: Orphan[],
+  options: PruneOptions = {}
+): Promise<number> {
+  let freed = 0;
+  let removed = 0;
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+
+  for (const o of orphans) {
+    if (options.dryRun) {
+      const verb = options.trash ? "Would trash" : "Would delete";
+      console.log(pc.dim(`${verb} ${o.dir} (${formatBytes(o.sizeBytes)})`));
+      freed += o.sizeBytes;
+      continue;
+    }
+
+    try {
+      if (options.trash) {
+        await mkdir(TRASH_DIR, { recursive: true });
+        await moveDir(o.dir, join(TRASH_DIR, `${stamp}${o.project.encodedPath}`));
+      } else {
+        await rm(o.dir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      const done = removed === 0 ? "nothing removed" : `${removed} of ${orphans.length} removed before it (${formatBytes(freed)})`;
+      throw new Error(`Failed to prune ${o.dir}: ${(err as Error).message}; ${done}`);
+    }
+    console.log(`${options.trash ? "Trashed" : "Deleted"} ${o.project.path} (${formatBytes(o.sizeBytes)})`);
+    freed += o.sizeBytes;
+    removed++;
+  }
+
+  return freed;
+}
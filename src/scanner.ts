@@ -1,14 +1,58 @@
 import { readdir, stat } from "node:fs/promises";
-import { join } from "node:path";
+import { join, resolve, dirname, delimiter } from "node:path";
 import { homedir } from "node:os";
+import { loadConfig } from "./config.js";
+import { readJsonl } from "./jsonl.js";
+
+// exact: taken from a transcript cwd, heuristic: guessed by probing the
+// filesystem, unresolved: neither worked, path is a naive decode
+export type PathResolution = "exact" | "heuristic" | "unresolved";
 
 export interface Project {
   name: string;
   path: string;
   encodedPath: string;
+  root: string; // data root the encoded dir was found in
+  resolution: PathResolution;
+  missing: boolean; // directory not found on this machine (deleted, moved or from another machine)
+}
+
+// Lines to read per session before giving up on finding a cwd
+const CWD_SCAN_LINES = 50;
+
+function expandHome(path: string): string {
+  if (path.startsWith("~/")) {
+    return join(homedir(), path.slice(2));
+  }
+  return path;
 }
 
-const PROJECTS_DIR = join(homedir(), ".claude", "projects");
+export function getDefaultRoot(): string {
+  const configDir = process.env.CLAUDE_CONFIG_DIR
+    ? expandHome(process.env.CLAUDE_CONFIG_DIR)
+    : join(homedir(), ".claude");
+  return join(configDir, "projects");
+}
+
+// Precedence: --root flags, then CCLP_DATA_ROOTS, then config, then the default
+export async function getDataRoots(override: string[] = []): Promise<string[]> {
+  let roots = override;
+
+  if (roots.length === 0 && process.env.CCLP_DATA_ROOTS) {
+    roots = process.env.CCLP_DATA_ROOTS.split(delimiter).filter(Boolean);
+  }
+
+  if (roots.length === 0) {
+    const config = await loadConfig();
+    roots = config.dataRoots ?? [];
+  }
+
+  if (roots.length === 0) {
+    roots = [getDefaultRoot()];
+  }
+
+  return Array.from(new Set(roots.map((r) => resolve(expandHome(r)))));
+}
 
 async function exists(path: string): Promise<boolean> {
   try {
@@ -57,42 +101,108 @@ async function decodePath(encoded: string): Promise<string | null> {
   return findPath(0, "");
 }
 
+// Claude Code replaces every non-alphanumeric character with a hyphen
+export function encodePath(path: string): string {
+  return path.replace(/[^a-zA-Z0-9]/g, "-");
+}
+
+async function readSessionCwd(file: string): Promise<string | null> {
+  let count = 0;
+  for await (const { data } of readJsonl<{ cwd?: string }>(file)) {
+    if (data.cwd) return data.cwd;
+    if (++count >= CWD_SCAN_LINES) break;
+  }
+  return null;
+}
+
+async function findTranscriptCwd(dir: string, encoded: string): Promise<string | null> {
+  try {
+    const files = await readdir(dir);
+    const jsonlFiles = files.filter((f) => f.endsWith(".jsonl"));
+
+    for (const file of jsonlFiles) {
+      const cwd = await readSessionCwd(join(dir, file));
+      // A session started elsewhere (or after a cd) doesn't describe this dir
+      if (cwd && encodePath(cwd) === encoded) return cwd;
+    }
+  } catch {
+    // unreadable dir
+  }
+  return null;
+}
+
+export async function resolveProjectPath(
+  dir: string,
+  encoded: string
+): Promise<{ path: string; resolution: PathResolution }> {
+  const cwd = await findTranscriptCwd(dir, encoded);
+  if (cwd) return { path: cwd, resolution: "exact" };
+
+  const decoded = await decodePath(encoded);
+  if (decoded) return { path: decoded, resolution: "heuristic" };
+
+  return { path: "/" + encoded.slice(1).split("-").join("/"), resolution: "unresolved" };
+}
+
 function getProjectName(path: string): string {
   const parts = path.split("/").filter(Boolean);
   return parts[parts.length - 1] || path;
 }
 
-export async function scanProjects(): Promise<Project[]> {
-  const projects: Project[] = [];
+async function scanRoot(root: string): Promise<Project[]> {
+  const scanned: Project[] = [];
 
   try {
-    const entries = await readdir(PROJECTS_DIR);
+    const entries = await readdir(root);
 
     for (const entry of entries) {
       if (entry.startsWith(".")) continue;
 
-      const fullPath = join(PROJECTS_DIR, entry);
+      const fullPath = join(root, entry);
       const stats = await stat(fullPath);
 
       if (!stats.isDirectory()) continue;
 
-      const decodedPath = await decodePath(entry);
-
-      if (decodedPath) {
-        projects.push({
-          name: getProjectName(decodedPath),
-          path: decodedPath,
-          encodedPath: entry,
-        });
-      }
+      const { path, resolution } = await resolveProjectPath(fullPath, entry);
+
+      scanned.push({
+        name: getProjectName(path),
+        path,
+        encodedPath: entry,
+        root,
+        resolution,
+        // Heuristic paths were only found by probing, so they exist
+        missing: !(resolution === "heuristic" || (resolution === "exact" && (await exists(path)))),
+      });
     }
   } catch {
-    // Projects dir doesn't exist
+    // Root doesn't exist
   }
 
-  return projects;
+  return scanned;
+}
+
+// Every project with history, including ones whose directory is missing here
+export async function scanProjects(roots?: string[]): Promise<Project[]> {
+  const dataRoots = roots ?? (await getDataRoots());
+  const perRoot = await Promise.all(dataRoots.map(scanRoot));
+  return perRoot.flat();
+}
+
+// Missing projects that were deleted from this machine. Projects in other
+// roots (a synced or shared history) or on an unmounted drive are missing
+// too, so outside the default root they only count when the parent
+// directory is still here.
+export async function scanOrphans(roots?: string[]): Promise<Project[]> {
+  const defaultRoot = resolve(getDefaultRoot());
+  const orphans: Project[] = [];
+  for (const project of await scanProjects(roots)) {
+    if (!project.missing) continue;
+    if (project.root === defaultRoot || (await exists(dirname(project.path)))) orphans.push(project);
+  }
+  return orphans;
 }
 
 export function getProjectDir(project: Project): string {
-  return join(PROJECTS_DIR, project.encodedPath);
+  return join(project.root, project.encodedPath);
 }
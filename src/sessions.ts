@@ -0,0 +1,156 @@
+import pc from "picocolors";
+import type { ProjectStats, SessionRecord, TokenUsage, TimeBuckets } from "./parser.js";
+import type { Project } from "./scanner.js";
+import { vimSelect } from "./vim-select.js";
+import { calculateBucketsCost, costByModel, formatCost, formatTokens, formatModelMix } from "./pricing.js";
+
+export interface Session {
+  id: string;
+  project: Project;
+  start: Date | null;
+  end: Date | null;
+  durationMs: number;
+  messageCounts: Record<string, number>;
+  models: Record<string, TokenUsage>;
+  buckets: TimeBuckets;
+  usage: TokenUsage;
+  cost: number;
+  firstPrompt: string | null;
+  gitBranch: string | null;
+}
+
+export type SessionSort = "recent" | "cost";
+
+function toSession(project: Project, r: SessionRecord): Session {
+  return {
+    id: r.id,
+    project,
+    start: r.firstActivity,
+    end: r.lastActivity,
+    durationMs: r.firstActivity && r.lastActivity ? r.lastActivity.getTime() - r.firstActivity.getTime() : 0,
+    messageCounts: r.messageCounts,
+    models: r.models,
+    buckets: r.buckets,
+    usage: r.usage,
+    cost: calculateBucketsCost(r.buckets),
+    firstPrompt: r.prompts[0] ?? null,
+    gitBranch: r.gitBranch,
+  };
+}
+
+export function getSessions(stats: ProjectStats, sort: SessionSort = "recent"): Session[] {
+  const sessions = stats.records.map((r) => toSession(stats.project, r));
+
+  return sessions.sort((a, b) => {
+    if (sort === "cost") return b.cost - a.cost;
+    return (b.end?.getTime() ?? 0) - (a.end?.getTime() ?? 0);
+  });
+}
+
+function padRight(str: string, len: number): string {
+  return str.length >= len ? str.slice(0, len) : str + " ".repeat(len - str.length);
+}
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return "<1m";
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h${String(minutes % 60).padStart(2, "0")}m`;
+  return `${Math.floor(hours / 24)}d${hours % 24}h`;
+}
+
+function formatStart(date: Date | null): string {
+  if (!date) return "unknown";
+  return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function messageTotal(s: Session): number {
+  return (s.messageCounts.user || 0) + (s.messageCounts.assistant || 0);
+}
+
+function formatPrompt(prompt: string | null, len: number): string {
+  if (!prompt) return "";
+  const msg = prompt.replace(/\n/g, " ");
+  return msg.length > len ? msg.slice(0, len) + "..." : msg;
+}
+
+export function showSessions(sessions: Session[]): void {
+  if (sessions.length === 0) {
+    console.log(pc.yellow("No sessions found"));
+    return;
+  }
+
+  console.log(
+    pc.bold(
+      `${padRight("STARTED", 20)} ${padRight("DURATION", 9)} ${padRight("MSGS", 6)} ${padRight("COST", 9)} ${padRight("MODELS", 18)} ${padRight("BRANCH", 16)} PROMPT`
+    )
+  );
+  console.log(pc.dim("-".repeat(110)));
+
+  for (const s of sessions) {
+    console.log(
+      `${padRight(formatStart(s.start), 20)} ${padRight(formatDuration(s.durationMs), 9)} ${padRight(String(messageTotal(s)), 6)} ${pc.green(padRight(formatCost(s.cost), 9))} ${padRight(formatModelMix(s.models), 18)} ${pc.dim(padRight(s.gitBranch ?? "", 16))} ${formatPrompt(s.firstPrompt, 30)}`
+    );
+  }
+
+  console.log(pc.dim("-".repeat(110)));
+  const total = sessions.reduce((sum, s) => sum + s.cost, 0);
+  console.log(pc.green(`${sessions.length} sessions, ${formatCost(total)}`));
+}
+
+export function showSession(session: Session): void {
+  const tokens = session.usage.inputTokens + session.usage.outputTokens;
+
+  console.log();
+  console.log(pc.bold(pc.cyan(`  ${session.project.name}`)) + pc.dim(` ${session.id}`));
+  if (session.firstPrompt) console.log(pc.dim(`  ${formatPrompt(session.firstPrompt, 70)}`));
+  console.log();
+  console.log(`  Started:      ${formatStart(session.start)}`);
+  console.log(`  Duration:     ${formatDuration(session.durationMs)}`);
+  if (session.gitBranch) console.log(`  Branch:       ${session.gitBranch}`);
+  console.log(`  Tokens:       ${formatTokens(tokens)}`);
+  console.log(`  Cost:         ${pc.green(formatCost(session.cost))}`);
+  console.log();
+
+  console.log(pc.bold("  Messages"));
+  console.log(pc.dim("  " + "-".repeat(40)));
+  for (const [type, count] of Object.entries(session.messageCounts).sort((a, b) => b[1] - a[1])) {
+    console.log(`  ${padRight(type, 20)} ${count}`);
+  }
+  console.log();
+
+  const modelCosts = costByModel(session.buckets);
+  const models = Object.entries(session.models).filter(
+    ([model, u]) => (modelCosts[model] ?? 0) > 0 || u.inputTokens + u.outputTokens > 0
+  );
+  if (models.length > 0) {
+    console.log(pc.bold("  Models"));
+    console.log(pc.dim("  " + "-".repeat(40)));
+    for (const [model, usage] of models) {
+      const modelTokens = usage.inputTokens + usage.outputTokens;
+      console.log(`  ${padRight(model, 30)} ${padRight(formatTokens(modelTokens), 8)} ${pc.green(formatCost(modelCosts[model] ?? 0))}`);
+    }
+    console.log();
+  }
+}
+
+export async function pickSession(sessions: Session[]): Promise<Session | null> {
+  if (sessions.length === 0) {
+    console.log(pc.yellow("No sessions found"));
+    return null;
+  }
+
+  const result = await vimSelect({
+    message: "Select session:",
+    choices: sessions.map((s) => ({
+      name: `${padRight(formatStart(s.start), 20)} ${pc.dim(padRight(formatDuration(s.durationMs), 8))} ${pc.green(formatCost(s.cost).padStart(8))}  ${formatPrompt(s.firstPrompt, 40)}`,
+      description: [s.gitBranch, formatModelMix(s.models, 3), `${messageTotal(s)} messages`].filter(Boolean).join(" | "),
+      value: s,
+    })),
+    pageSize: 15,
+    actions: [],
+  });
+
+  return result?.value ?? null;
+}
@@ -28,7 +28,7 @@ function getDistinctId(): string {
 }
 
 interface TrackEvent {
-  command: "picker" | "list" | "open" | "stats" | "recent" | "cost" | "export" | "archive" | "new";
+  command: "picker" | "list" | "open" | "stats" | "recent" | "cost" | "export" | "archive" | "new" | "orphans" | "prune" | "mv" | "sessions" | "profile" | "budget" | "blocks";
   projectCount?: number;
   daysFilter?: number;
   success?: boolean;
@@ -0,0 +1,128 @@
+import type { Config } from "./config.js";
+
+// Days, weeks and months are bucketed in this zone
+export interface TimeOptions {
+  timeZone: string; // IANA zone, e.g. Europe/Amsterdam
+  weekStart: number; // 0 = Sunday ... 6 = Saturday
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function resolveTimeZone(zone: string): string {
+  if (zone === "local") return localTimeZone();
+  try {
+    getFormatter(zone);
+    return zone;
+  } catch {
+    throw new Error(`Unknown time zone "${zone}", use an IANA name like Europe/Amsterdam, UTC or local`);
+  }
+}
+
+export function parseWeekStart(day: string): number {
+  const index = WEEKDAYS.findIndex((d) => d.startsWith(day.toLowerCase()) && day.length >= 2);
+  if (index === -1) throw new Error(`Invalid week start "${day}", use a day name like monday or sunday`);
+  return index;
+}
+
+export function formatWeekStart(weekStart: number): string {
+  return WEEKDAYS[weekStart];
+}
+
+// --tz flag, then config, then the system zone; weeks start on Monday by default
+export function getTimeOptions(config: Config, tz?: string): TimeOptions {
+  return {
+    timeZone: resolveTimeZone(tz ?? config.timeZone ?? "local"),
+    weekStart: config.weekStart ? parseWeekStart(config.weekStart) : 1,
+  };
+}
+
+interface ZonedParts {
+  day: string; // YYYY-MM-DD
+  minutes: number; // since local midnight
+}
+
+function zonedParts(instant: Date, time: TimeOptions): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const p of getFormatter(time.timeZone).formatToParts(instant)) {
+    parts[p.type] = p.value;
+  }
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+// Calendar day an instant falls on in the zone
+export function dayOf(instant: Date, time: TimeOptions): string {
+  return zonedParts(instant, time).day;
+}
+
+// HH:MM in the zone
+export function formatTime(instant: Date, time: TimeOptions): string {
+  const { minutes } = zonedParts(instant, time);
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+export function formatDateTime(instant: Date, time: TimeOptions): string {
+  return `${dayOf(instant, time)} ${formatTime(instant, time)}`;
+}
+
+export function today(time: TimeOptions, now: Date = new Date()): string {
+  return dayOf(now, time);
+}
+
+// Share of the current day that has passed in the zone, 0 to 1
+export function dayProgress(time: TimeOptions, now: Date = new Date()): number {
+  return zonedParts(now, time).minutes / (24 * 60);
+}
+
+// Calendar arithmetic on YYYY-MM-DD days, independent of any zone
+export function addDays(day: string, days: number): string {
+  const d = new Date(`${day}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// Whole days from one YYYY-MM-DD day to another
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+export function daysInMonth(month: string): number {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m, 0)).getUTCDate();
+}
+
+// First day of the week a day falls in
+export function weekOf(day: string, time: TimeOptions): string {
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return addDays(day, -((weekday - time.weekStart + 7) % 7));
+}
+
+// First day of the last N days, today included
+export function lastDaysStart(days: number, time: TimeOptions, now: Date = new Date()): string {
+  return addDays(today(time, now), -(days - 1));
+}
@@ -1,8 +1,17 @@
-import { vimSelect, type SelectResult } from "./vim-select.js";
+import { vimSelect, type SelectResult, type Choice, type InlineAction } from "./vim-select.js";
+import { archiveProject, unarchiveProject } from "./config.js";
+import { copyToClipboard } from "./launcher.js";
 import pc from "picocolors";
-import type { ProjectStats } from "./parser.js";
+import type { ProjectStats, TokenUsage, TimeBuckets } from "./parser.js";
+import { addToBucket, addBuckets } from "./parser.js";
 import type { SessionPreview } from "./preview.js";
-import { calculateCost, formatCost, formatTokens } from "./pricing.js";
+import type { BudgetStatus } from "./budget.js";
+import { formatBudgetWarning } from "./budget.js";
+import { getProjectInfo, formatInfoCompact } from "./info.js";
+import { fuzzyScore, highlight } from "./fuzzy.js";
+import type { TimeOptions } from "./timezone.js";
+import { dayOf, lastDaysStart } from "./timezone.js";
+import { calculateBucketsCost, costByModel, costTiers, costTierRows, formatCost, formatTokens, formatModel, formatModelMix } from "./pricing.js";
 
 function formatDate(date: Date | null): string {
   if (!date) return "never";
@@ -52,14 +61,6 @@ function padRight(str: string, len: number): string {
   return str.length >= len ? str.slice(0, len) : str + " ".repeat(len - str.length);
 }
 
-function formatModel(model: string | null): string {
-  if (!model) return "";
-  if (model.includes("opus")) return "opus";
-  if (model.includes("sonnet")) return "sonnet";
-  if (model.includes("haiku")) return "haiku";
-  return model.split("-")[0] || model;
-}
-
 function formatPreview(preview: SessionPreview | null): string {
   if (!preview) return "";
   const parts: string[] = [];
@@ -84,6 +85,10 @@ function formatPreview(preview: SessionPreview | null): string {
 export interface PickerOptions {
   frecencyScores?: Record<string, number>;
   previews?: Map<string, SessionPreview | null>;
+  budgets?: Map<string, BudgetStatus>; // project path -> budget status
+  time?: TimeOptions; // enables the preview pane
+  archived?: Set<string>; // paths archived from the picker, updated in place
+  initial?: ProjectStats; // highlighted at the start
 }
 
 export function sortByFrecency(
@@ -113,32 +118,79 @@ export async function showPicker(
     return null;
   }
 
-  const { frecencyScores = {}, previews } = options;
+  const { frecencyScores = {}, previews, budgets, time, archived = new Set<string>() } = options;
   const sorted = sortByFrecency(stats, frecencyScores);
 
-  const choices = sorted.map((s) => {
-    const cost = calculateCost(s.usage);
+  const toChoice = (s: ProjectStats): Choice<ProjectStats> => {
+    const cost = calculateBucketsCost(s.buckets);
     const costStr = formatCost(cost);
     const lastStr = formatDate(s.lastActivity);
     const frecency = frecencyScores[s.project.path];
     const frecencyStr = frecency ? pc.cyan(`[${frecency}]`) : "";
+    const budgetStr = formatBudgetWarning(budgets?.get(s.project.path));
+    const archivedStr = archived.has(s.project.path) ? pc.yellow("archived") : "";
     const activity = getActivityLevel(s.lastActivity);
     const indicator = activityIndicator(activity);
 
     const preview = previews?.get(s.project.path) ?? null;
     const previewStr = formatPreview(preview);
 
+    const row = (label: string) =>
+      `${indicator} ${label} ${pc.dim(lastStr.padStart(10))} ${pc.green(costStr.padStart(8))} ${frecencyStr} ${archivedStr} ${budgetStr}`.trimEnd();
+
     return {
-      name: `${indicator} ${padRight(s.project.name, 26)} ${pc.dim(lastStr.padStart(10))} ${pc.green(costStr.padStart(8))} ${frecencyStr}`,
+      name: row(padRight(s.project.name, 26)),
       description: previewStr || undefined,
       value: s,
+      search: s.project.name,
+      weight: frecency,
+      render: (positions: number[]) => row(highlight(s.project.name, positions, 26)),
     };
-  });
+  };
+
+  // Archived rows stay until the picker is reopened, so a second a undoes it.
+  // A selection is unarchived only when all of it is archived already.
+  const toggleArchive: InlineAction<ProjectStats> = {
+    key: "a",
+    label: "archive/unarchive",
+    run: async (targets) => {
+      const unarchive = targets.every((s) => archived.has(s.project.path));
+      for (const s of targets) {
+        const path = s.project.path;
+        if (unarchive) {
+          await unarchiveProject(path);
+          archived.delete(path);
+        } else if (!archived.has(path)) {
+          await archiveProject(path);
+          archived.add(path);
+        }
+      }
+      const names = targets.length === 1 ? targets[0].project.name : `${targets.length} projects`;
+      const message = unarchive ? `Unarchived ${names}` : `Archived ${names}`;
+      return { message: pc.green(message), choices: targets.map(toChoice) };
+    },
+  };
+
+  const copyPath: InlineAction<ProjectStats> = {
+    key: "y",
+    label: "copy path",
+    run: async (targets) => {
+      copyToClipboard(targets.map((s) => s.project.path).join("\n"));
+      const copied = targets.length === 1 ? targets[0].project.path : `${targets.length} paths`;
+      return { message: pc.green(`Copied ${copied}`) };
+    },
+  };
 
   return vimSelect({
     message: "Select project:",
-    choices,
+    choices: sorted.map(toChoice),
     pageSize: 15,
+    multi: true,
+    actions: ["info", "resume", "sessions", "editor", "shell", "cost", "export"],
+    bulk: ["cost", "export"],
+    inline: [toggleArchive, copyPath],
+    preview: time ? (s, width) => formatInfoCompact(getProjectInfo(s), time, width) : undefined,
+    default: options.initial,
   });
 }
 
@@ -158,7 +210,7 @@ export function showRecent(
   console.log();
 
   sorted.forEach((s, i) => {
-    const cost = calculateCost(s.usage);
+    const cost = calculateBucketsCost(s.buckets);
     const activity = getActivityLevel(s.lastActivity);
     const indicator = activityIndicator(activity);
     const lastStr = formatDate(s.lastActivity);
@@ -187,19 +239,27 @@ export function showTable(stats: ProjectStats[]): void {
   // Header
   console.log(
     pc.bold(
-      `  ${padRight("PROJECT", 28)} ${padRight("SESSIONS", 10)} ${padRight("LAST", 12)} ${padRight("TOKENS", 12)} ${padRight("COST", 10)}`
+      `  ${padRight("PROJECT", 28)} ${padRight("SESSIONS", 10)} ${padRight("LAST", 12)} ${padRight("TOKENS", 12)} ${padRight("COST", 10)} MODELS`
     )
   );
-  console.log(pc.dim("-".repeat(76)));
+  console.log(pc.dim("-".repeat(96)));
 
   for (const s of sorted) {
-    const cost = calculateCost(s.usage);
+    const cost = calculateBucketsCost(s.buckets);
     const totalTokens = s.usage.inputTokens + s.usage.outputTokens;
     const activity = getActivityLevel(s.lastActivity);
     const indicator = activityIndicator(activity);
 
+    const columns = `${padRight(s.project.name, 28)} ${padRight(String(s.sessions), 10)} ${padRight(formatDate(s.lastActivity), 12)} ${padRight(formatTokens(totalTokens), 12)}`;
+
+    // Still counted, but the directory isn't on this machine
+    if (s.project.missing) {
+      console.log(pc.dim(`  ${columns} ${padRight(formatCost(cost), 10)} ${[formatModelMix(s.models), "(missing)"].filter(Boolean).join(" ")}`));
+      continue;
+    }
+
     console.log(
-      `${indicator} ${padRight(s.project.name, 28)} ${padRight(String(s.sessions), 10)} ${padRight(formatDate(s.lastActivity), 12)} ${padRight(formatTokens(totalTokens), 12)} ${pc.green(formatCost(cost))}`
+      `${indicator} ${columns} ${pc.green(padRight(formatCost(cost), 10))} ${pc.dim(formatModelMix(s.models))}`
     );
   }
 }
@@ -211,6 +271,7 @@ export function showStats(stats: ProjectStats[], days?: number): void {
       acc.inputTokens += s.usage.inputTokens;
       acc.outputTokens += s.usage.outputTokens;
       acc.cacheCreationInputTokens += s.usage.cacheCreationInputTokens;
+      acc.cacheCreation1hInputTokens += s.usage.cacheCreation1hInputTokens;
       acc.cacheReadInputTokens += s.usage.cacheReadInputTokens;
       return acc;
     },
@@ -219,11 +280,23 @@ export function showStats(stats: ProjectStats[], days?: number): void {
       inputTokens: 0,
       outputTokens: 0,
       cacheCreationInputTokens: 0,
+      cacheCreation1hInputTokens: 0,
       cacheReadInputTokens: 0,
     }
   );
 
-  const totalCost = calculateCost(totals);
+  const models: Record<string, TokenUsage> = {};
+  const byTime: TimeBuckets = {};
+  for (const s of stats) {
+    for (const [model, usage] of Object.entries(s.models)) {
+      addToBucket(models, model, usage);
+    }
+    addBuckets(byTime, s.buckets);
+  }
+
+  const totalCost = calculateBucketsCost(byTime);
+  const modelCosts = costByModel(byTime);
+  const tiers = costTierRows(costTiers(byTime));
   const title = days ? `Claude Code Usage (last ${days}d)` : "Claude Code Usage";
 
   console.log(pc.bold(title));
@@ -232,24 +305,162 @@ export function showStats(stats: ProjectStats[], days?: number): void {
   console.log(`Sessions:       ${totals.sessions}`);
   console.log(`Input tokens:   ${formatTokens(totals.inputTokens)}`);
   console.log(`Output tokens:  ${formatTokens(totals.outputTokens)}`);
-  console.log(`Cache writes:   ${formatTokens(totals.cacheCreationInputTokens)}`);
+  const cache1h = totals.cacheCreation1hInputTokens;
+  console.log(`Cache writes:   ${formatTokens(totals.cacheCreationInputTokens)}${cache1h > 0 ? pc.dim(` (${formatTokens(cache1h)} 1h)`) : ""}`);
   console.log(`Cache reads:    ${formatTokens(totals.cacheReadInputTokens)}`);
+
+  const byCost = Object.entries(models)
+    .map(([model, usage]) => ({ model, usage, cost: modelCosts[model] ?? 0 }))
+    .filter((m) => m.cost > 0 || m.usage.inputTokens + m.usage.outputTokens > 0)
+    .sort((a, b) => b.cost - a.cost);
+
+  if (byCost.length > 0) {
+    console.log(pc.dim("-".repeat(40)));
+    for (const { model, usage, cost } of byCost) {
+      const tokens = usage.inputTokens + usage.outputTokens;
+      console.log(`${padRight(model, 30)} ${padRight(formatTokens(tokens), 8)} ${pc.green(formatCost(cost))}`);
+    }
+  }
+  if (tiers.length > 0) {
+    console.log(pc.dim("-".repeat(40)));
+    for (const [label, cost] of tiers) {
+      console.log(`${padRight(label, 30)} ${padRight("", 8)} ${pc.green(formatCost(cost))}`);
+    }
+  }
   console.log(pc.dim("-".repeat(40)));
   console.log(pc.green(`Estimated cost: ${formatCost(totalCost)}`));
 }
 
-export function fuzzyMatch(projects: ProjectStats[], query: string): ProjectStats | null {
+// Match tiers, best first; within a tier shorter names and frecency decide
+const MATCH_EXACT = 1000;
+const MATCH_PREFIX = 800;
+const MATCH_WORD = 600;
+const MATCH_SEGMENT = 400;
+const MATCH_SUBSTRING = 300;
+const MATCH_FUZZY = 200; // subsequence scores are capped below this
+const LENGTH_PENALTY_MAX = 20;
+// Top matches closer than this need a choice from the user
+const AMBIGUOUS_MARGIN = 20;
+// Heavier than the / search tiebreaker: one recent launch should clear the margin
+const FRECENCY_WEIGHT = 4;
+
+type Matchable = { project: { name: string; path: string }; lastActivity?: Date | null };
+
+export interface ProjectMatch<T> {
+  item: T;
+  score: number;
+  exact: boolean;
+}
+
+function matchScore(query: string, name: string, path: string): number | null {
   const q = query.toLowerCase();
-  // Exact match first
-  const exact = projects.find((p) => p.project.name.toLowerCase() === q);
-  if (exact) return exact;
-  // Then substring match
-  const matches = projects.filter((p) => p.project.name.toLowerCase().includes(q));
-  return matches[0] || null;
-}
-
-export function filterByDays(stats: ProjectStats[], days: number): ProjectStats[] {
-  const cutoff = new Date();
-  cutoff.setDate(cutoff.getDate() - days);
-  return stats.filter((s) => s.lastActivity && s.lastActivity >= cutoff);
+  const n = name.toLowerCase();
+  const p = path.toLowerCase();
+  const lengthPenalty = Math.min(LENGTH_PENALTY_MAX, n.length - q.length);
+
+  if (n === q) return MATCH_EXACT;
+  if (n.startsWith(q)) return MATCH_PREFIX - lengthPenalty;
+  if (n.split(/[-_.\s]+/).some((word) => word.startsWith(q))) return MATCH_WORD - lengthPenalty;
+
+  // Parent directories, or a path tail like work/api
+  const segments = p.split("/").filter(Boolean);
+  if (q.includes("/") ? p.endsWith("/" + q.replace(/^\/+/, "")) : segments.includes(q)) {
+    return MATCH_SEGMENT;
+  }
+
+  if (n.includes(q)) return MATCH_SUBSTRING - lengthPenalty;
+
+  const fuzzy = fuzzyScore(q, name);
+  if (fuzzy) return Math.min(MATCH_FUZZY - 1, fuzzy.score);
+  return null;
+}
+
+// Every project matching the query, best first
+export function rankMatches<T extends Matchable>(
+  projects: T[],
+  query: string,
+  frecencyScores: Record<string, number> = {}
+): ProjectMatch<T>[] {
+  const matches: ProjectMatch<T>[] = [];
+  for (const item of projects) {
+    const score = matchScore(query, item.project.name, item.project.path);
+    if (score === null) continue;
+    matches.push({
+      item,
+      score: score + Math.log2(1 + (frecencyScores[item.project.path] ?? 0)) * FRECENCY_WEIGHT,
+      exact: score === MATCH_EXACT,
+    });
+  }
+
+  return matches.sort(
+    (a, b) =>
+      b.score - a.score ||
+      (b.item.lastActivity?.getTime() ?? 0) - (a.item.lastActivity?.getTime() ?? 0) ||
+      a.item.project.name.localeCompare(b.item.project.name)
+  );
+}
+
+// Exact name matches always win; otherwise the top two must be clearly apart
+export function isAmbiguous<T>(matches: ProjectMatch<T>[]): boolean {
+  if (matches.length < 2) return false;
+  if (matches[0].exact) return matches[1].exact;
+  return matches[0].score - matches[1].score < AMBIGUOUS_MARGIN;
+}
+
+// Close matches only, the rest is noise
+function closeMatches<T>(matches: ProjectMatch<T>[], limit: number): ProjectMatch<T>[] {
+  const top = matches[0]?.score ?? 0;
+  return matches.filter((m) => top - m.score < MATCH_EXACT - MATCH_PREFIX).slice(0, limit);
+}
+
+export function showCandidates<T extends Matchable>(matches: ProjectMatch<T>[], query: string): void {
+  console.log(pc.red(`"${query}" matches several projects, be more specific:`));
+  for (const m of closeMatches(matches, 10)) {
+    console.log(`  ${padRight(m.item.project.name, 28)} ${pc.dim(m.item.project.path)}`);
+  }
+}
+
+export async function pickMatch<T extends Matchable>(matches: ProjectMatch<T>[], query: string): Promise<T | null> {
+  const result = await vimSelect({
+    message: `Several projects match "${query}":`,
+    choices: closeMatches(matches, 15).map((m) => ({
+      name: `${padRight(m.item.project.name, 28)} ${pc.dim(padRight(formatDate(m.item.lastActivity ?? null), 10))} ${pc.dim(m.item.project.path)}`,
+      value: m.item,
+      search: m.item.project.name,
+    })),
+    pageSize: 15,
+    actions: [],
+  });
+  return result?.value ?? null;
+}
+
+// Several projects for a bulk command, most recent first; the highlighted one
+// when nothing is ticked, like the picker's bulk keys. null when cancelled
+export async function pickProjects<T extends Matchable>(
+  items: T[],
+  message: string,
+  checked = false
+): Promise<T[] | null> {
+  if (items.length === 0) return [];
+  const sorted = [...items].sort((a, b) => (b.lastActivity?.getTime() ?? 0) - (a.lastActivity?.getTime() ?? 0));
+  const result = await vimSelect({
+    message,
+    choices: sorted.map((item) => ({
+      name: `${padRight(item.project.name, 28)} ${pc.dim(padRight(formatDate(item.lastActivity ?? null), 10))} ${pc.dim(item.project.path)}`,
+      value: item,
+      search: item.project.name,
+      checked,
+    })),
+    pageSize: 15,
+    multi: true,
+    actions: [],
+  });
+  if (!result) return null;
+  return result.values.length > 0 ? result.values : [result.value];
+}
+
+// Last N calendar days in the zone, today included, same as cost --days
+export function filterByDays(stats: ProjectStats[], days: number, time: TimeOptions): ProjectStats[] {
+  const cutoff = lastDaysStart(days, time);
+  return stats.filter((s) => s.lastActivity && dayOf(s.lastActivity, time) >= cutoff);
 }
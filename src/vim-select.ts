@@ -5,102 +5,382 @@ import {
   usePrefix,
   usePagination,
   useMemo,
+  useRef,
   makeTheme,
   isEnterKey,
   isUpKey,
   isDownKey,
+  isBackspaceKey,
+  type KeypressEvent,
 } from "@inquirer/core";
 import pc from "picocolors";
+import { fuzzyScore, frecencyBonus, highlight, stripAnsi } from "./fuzzy.js";
 
-type Choice<T> = {
+export type Choice<T> = {
   name: string;
   value: T;
   description?: string;
   disabled?: boolean | string;
+  checked?: boolean; // preselected in multi mode
+  search?: string; // text matched by / search, default the name without colors
+  weight?: number; // frecency score, ranks equally good matches
+  render?: (positions: number[]) => string; // name with the matched chars of search highlighted
+};
+
+type Match<T> = {
+  choice: Choice<T>;
+  positions: number[];
+};
+
+export type SelectAction = "select" | "info" | "resume" | "sessions" | "editor" | "shell" | "cost" | "export";
+
+// Key handled inside the prompt on the selection (or the highlighted choice);
+// it stays open and can swap choices for updated ones
+export type InlineAction<T> = {
+  key: string;
+  label: string;
+  run: (values: T[]) => Promise<{ message?: string; choices?: Choice<T>[] }>;
 };
 
 type Config<T> = {
   message: string;
   choices: readonly Choice<T>[];
   pageSize?: number;
+  actions?: Exclude<SelectAction, "select">[]; // extra keys to enable, default info only
+  inline?: InlineAction<T>[];
+  preview?: (value: T, width: number) => string; // pane for the highlighted choice, p toggles it
+  default?: T; // value highlighted at the start
+  multi?: boolean; // space toggles, * toggles everything matching the filter
+  bulk?: SelectAction[]; // actions that take the selection in multi mode, default enter only
 };
 
 export type SelectResult<T> = {
-  action: "select" | "info";
-  value: T;
+  action: SelectAction;
+  value: T; // highlighted choice
+  values: T[]; // selected choices in multi mode (maybe none), else just the highlighted one
 } | null;
 
+// Extra actions that finish the prompt on the highlighted choice
+const ACTION_KEYS: Record<Exclude<SelectAction, "select">, { key: string; label: string }> = {
+  info: { key: "i", label: "info" },
+  resume: { key: "r", label: "resume" },
+  sessions: { key: "R", label: "sessions" },
+  editor: { key: "e", label: "open in $EDITOR" },
+  shell: { key: "s", label: "open $SHELL in the directory" },
+  cost: { key: "c", label: "cost report" },
+  export: { key: "x", label: "export as JSON" },
+};
+
+function helpLines<T>(
+  actions: Exclude<SelectAction, "select">[],
+  inline: InlineAction<T>[],
+  preview: boolean,
+  multi: boolean
+): string[] {
+  const keys: [string, string][] = [
+    ["j/k ↑/↓", "move"],
+    ["g/G", "first/last"],
+    ["enter", "select"],
+    ["/", "search, esc clears it"],
+  ];
+  if (multi) keys.push(["space", "toggle selection"], ["*", "toggle all matching"]);
+  keys.push(
+    ...actions.map((a): [string, string] => [ACTION_KEYS[a].key, ACTION_KEYS[a].label]),
+    ...inline.map((a): [string, string] => [a.key, a.label])
+  );
+  if (preview) keys.push(["p", "toggle preview"]);
+  keys.push(["?", "toggle this help"], ["esc", multi ? "clear the selection, then quit" : "quit"]);
+  return keys.map(([key, label]) => `  ${pc.cyan(key.padEnd(9))} ${label}`);
+}
+
+// readline reports uppercase letters as the lowercase name with shift set
+function isKey(key: KeypressEvent, char: string): boolean {
+  const lower = char.toLowerCase();
+  if (char === lower) return key.name === char && !key.shift;
+  return key.name === lower && key.shift;
+}
+
+// Punctuation has no key name, only the raw sequence
+function isChar(key: KeypressEvent, char: string): boolean {
+  return (key as KeypressEvent & { sequence?: string }).sequence === char;
+}
+
+// Best matches first, frecency breaking near ties, original order after that
+function filterChoices<T>(choices: readonly Choice<T>[], query: string): Match<T>[] {
+  if (!query) return choices.map((choice) => ({ choice, positions: [] }));
+
+  const matches: (Match<T> & { score: number; index: number })[] = [];
+  choices.forEach((choice, index) => {
+    const match = fuzzyScore(query, choice.search ?? stripAnsi(choice.name));
+    if (match) {
+      matches.push({ choice, positions: match.positions, score: match.score + frecencyBonus(choice.weight ?? 0), index });
+    }
+  });
+  return matches.sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+// Narrowest pane worth showing beside the list, below it otherwise
+const SIDE_PANE_MIN = 36;
+const SIDE_PANE_LINES = 18;
+const BOTTOM_PANE_LINES = 12;
+
+// Cut or pad to a visible width, leaving color codes intact
+function fitVisible(line: string, width: number): string {
+  const visible = stripAnsi(line).length;
+  if (visible <= width) return line + " ".repeat(width - visible);
+
+  let out = "";
+  let count = 0;
+  for (let i = 0; i < line.length && count < width; i++) {
+    const code = line.slice(i).match(/^\x1b\[[0-9;]*m/);
+    if (code) {
+      out += code[0];
+      i += code[0].length - 1;
+    } else {
+      out += line[i];
+      count++;
+    }
+  }
+  return out + "\x1b[0m";
+}
+
+// Based on the widest choice row, so the pane stays put while the cursor moves
+function paneWidth(listWidth: number, columns: number): { side: boolean; width: number } {
+  const side = columns - listWidth - 3;
+  return side >= SIDE_PANE_MIN ? { side: true, width: side } : { side: false, width: columns - 2 };
+}
+
+function withPane(list: string, pane: string, side: boolean, listWidth: number): string {
+  const listLines = list.split("\n");
+  if (!side) {
+    const paneLines = pane.split("\n").slice(0, BOTTOM_PANE_LINES);
+    return [...listLines, pc.dim("─".repeat(20)), ...paneLines.map((l) => `  ${l}`)].join("\n");
+  }
+
+  const paneLines = pane.split("\n").slice(0, Math.max(listLines.length, SIDE_PANE_LINES));
+  const rows = Math.max(listLines.length, paneLines.length);
+  const out: string[] = [];
+  for (let i = 0; i < rows; i++) {
+    out.push(`${fitVisible(listLines[i] ?? "", listWidth)} ${pc.dim("│")} ${paneLines[i] ?? ""}`.trimEnd());
+  }
+  return out.join("\n");
+}
+
+function renderName<T>(match: Match<T>): string {
+  const { choice, positions } = match;
+  if (positions.length === 0) return choice.name;
+  if (choice.render) return choice.render(positions);
+  return highlight(choice.search ?? stripAnsi(choice.name), positions);
+}
+
 export async function vimSelect<T>(config: Config<T>): Promise<SelectResult<T>> {
-  const { choices, pageSize = 15, message } = config;
+  const { actions = ["info"], inline = [] } = config;
 
   return createPrompt<SelectResult<T>, Config<T>>(
     (cfg, done) => {
       const theme = makeTheme({});
       const prefix = usePrefix({ theme });
 
+      // Inline actions replace choices, so the list lives in state
+      const [choiceList, setChoiceList] = useState(cfg.choices);
       const selectableChoices = useMemo(
-        () => cfg.choices.filter((c) => !c.disabled),
-        [cfg.choices]
+        () => choiceList.filter((c) => !c.disabled),
+        [choiceList]
       );
 
-      const [active, setActive] = useState(0);
+      const [active, setActive] = useState(() =>
+        Math.max(0, selectableChoices.findIndex((c) => cfg.default !== undefined && c.value === cfg.default))
+      );
       const [status, setStatus] = useState<"idle" | "done">("idle");
+      const [notice, setNotice] = useState("");
+      const [showHelp, setShowHelp] = useState(false);
+      const busy = useRef(false);
+      // / starts typing a query, enter keeps it as a filter, esc clears it
+      const [query, setQuery] = useState("");
+      const [typing, setTyping] = useState(false);
+      const [showPreview, setShowPreview] = useState(true);
+      // Panes are built the first time a choice is highlighted at a given width
+      const paneCache = useRef(new Map<Choice<T>, { width: number; text: string }>());
+      // Values rather than choices, so the selection survives inline actions replacing them
+      const [picked, setPicked] = useState(
+        () => new Set(cfg.multi ? cfg.choices.filter((c) => c.checked && !c.disabled).map((c) => c.value) : [])
+      );
+
+      const matches = useMemo(() => filterChoices(selectableChoices, query), [selectableChoices, query]);
+      // Cursor and selection marker, then the name
+      const listWidth = useMemo(
+        () => (cfg.multi ? 4 : 2) + Math.max(0, ...choiceList.map((c) => stripAnsi(c.name).length)),
+        [choiceList]
+      );
 
-      useKeypress((key, rl) => {
-        if (status === "done") return;
+      const updateQuery = (next: string) => {
+        setQuery(next);
+        setActive(0);
+      };
+
+      // Selection in list order
+      const pickedValues = (): T[] => selectableChoices.filter((c) => picked.has(c.value)).map((c) => c.value);
+      // Actions outside bulk only make sense for one choice, so a selection blocks them
+      const finish = (action: SelectAction, highlighted: Choice<T>) => {
+        if (picked.size > 0 && !(cfg.bulk ?? ["select"]).includes(action)) {
+          const name = action === "select" ? "enter" : ACTION_KEYS[action].label;
+          setNotice(pc.yellow(`${name} works on one at a time, esc clears the selection`));
+          return;
+        }
+        setStatus("done");
+        done({ action, value: highlighted.value, values: cfg.multi ? pickedValues() : [highlighted.value] });
+      };
+
+      const togglePicked = (values: T[]) => {
+        const next = new Set(picked);
+        const allPicked = values.every((v) => next.has(v));
+        for (const v of values) {
+          if (allPicked) next.delete(v);
+          else next.add(v);
+        }
+        setPicked(next);
+      };
+
+      useKeypress(async (key, rl) => {
+        if (status === "done" || busy.current) return;
+        if (notice) setNotice("");
+
+        if (showHelp) {
+          setShowHelp(false);
+          return;
+        }
 
-        if (key.name === "escape" || (key.ctrl && key.name === "c")) {
+        if (typing) {
+          if (key.name === "escape" || (key.ctrl && key.name === "c")) {
+            rl.clearLine(0);
+            setTyping(false);
+            updateQuery("");
+          } else if (isEnterKey(key)) {
+            setTyping(false);
+          } else if (isUpKey(key) || (key.ctrl && key.name === "p")) {
+            if (active > 0) setActive(active - 1);
+          } else if (isDownKey(key) || (key.ctrl && key.name === "n")) {
+            if (active < matches.length - 1) setActive(active + 1);
+          } else if (isBackspaceKey(key) && !query) {
+            setTyping(false);
+          } else if (rl.line !== query) {
+            updateQuery(rl.line);
+          }
+          return;
+        }
+
+        const action = actions.find((a) => isKey(key, ACTION_KEYS[a].key));
+        const inlineAction = inline.find((a) => isKey(key, a.key));
+        const selected = matches[active]?.choice;
+
+        if (key.name === "escape" && query) {
+          updateQuery("");
+        } else if (key.name === "escape" && picked.size > 0) {
+          setPicked(new Set());
+        } else if (key.name === "escape" || (key.ctrl && key.name === "c")) {
           setStatus("done");
           done(null);
+        } else if (isChar(key, "/")) {
+          // readline kept every key pressed so far, start the query fresh
+          rl.clearLine(0);
+          rl.write(query);
+          setTyping(true);
         } else if (isEnterKey(key)) {
-          const selected = selectableChoices[active];
-          if (selected) {
-            setStatus("done");
-            done({ action: "select", value: selected.value });
-          }
-        } else if (key.name === "i") {
-          // Info key
-          const selected = selectableChoices[active];
-          if (selected) {
-            setStatus("done");
-            done({ action: "info", value: selected.value });
+          if (selected) finish("select", selected);
+        } else if (action) {
+          if (selected) finish(action, selected);
+        } else if (cfg.multi && key.name === "space") {
+          if (selected) togglePicked([selected.value]);
+        } else if (cfg.multi && isChar(key, "*")) {
+          if (matches.length > 0) togglePicked(matches.map((m) => m.choice.value));
+        } else if (inlineAction) {
+          if (!selected) return;
+          busy.current = true;
+          try {
+            // The highlighted choice stands in when nothing is selected
+            const values = pickedValues();
+            const result = await inlineAction.run(values.length > 0 ? values : [selected.value]);
+            if (result.choices) {
+              const updated = new Map(result.choices.map((c) => [c.value, c]));
+              setChoiceList(choiceList.map((c) => updated.get(c.value) ?? c));
+            }
+            setNotice(result.message ?? "");
+          } catch (err) {
+            setNotice(pc.red((err as Error).message));
+          } finally {
+            busy.current = false;
           }
+        } else if (isChar(key, "?")) {
+          setShowHelp(true);
         } else if (isUpKey(key) || key.name === "k") {
           const next = active - 1;
           if (next >= 0) setActive(next);
         } else if (isDownKey(key) || key.name === "j") {
           const next = active + 1;
-          if (next < selectableChoices.length) setActive(next);
-        } else if (key.name === "g") {
+          if (next < matches.length) setActive(next);
+        } else if (cfg.preview && isKey(key, "p")) {
+          setShowPreview(!showPreview);
+        } else if (isKey(key, "g")) {
           setActive(0);
-        } else if (key.name === "G") {
-          setActive(selectableChoices.length - 1);
+        } else if (isKey(key, "G")) {
+          setActive(Math.max(0, matches.length - 1));
         }
       });
 
       const page = usePagination({
-        items: selectableChoices,
+        items: matches,
         active,
-        renderItem: ({ item, isActive }: { item: Choice<T>; isActive: boolean }) => {
+        renderItem: ({ item, isActive }: { item: Match<T>; isActive: boolean }) => {
           const color = isActive ? pc.cyan : (x: string) => x;
           const cursor = isActive ? pc.cyan("❯") : " ";
-          const line = `${cursor} ${item.name}`;
+          const mark = !cfg.multi ? "" : picked.has(item.choice.value) ? `${pc.green("◉")} ` : `${pc.dim("○")} `;
+          const line = `${cursor} ${mark}${renderName(item)}`;
 
-          if (item.description && isActive) {
-            return `${color(line)}\n  ${pc.dim(item.description)}`;
+          if (item.choice.description && isActive) {
+            return `${color(line)}\n  ${pc.dim(item.choice.description)}`;
           }
           return color(line);
         },
         pageSize: cfg.pageSize || 15,
       });
 
+      if (showHelp && status !== "done") {
+        return `${prefix} ${cfg.message} ${pc.dim("(any key to go back)")}\n${helpLines(actions, inline, !!cfg.preview, !!cfg.multi).join("\n")}`;
+      }
+
       if (status === "done") {
-        const selected = selectableChoices[active];
-        return `${prefix} ${cfg.message} ${pc.cyan(selected?.name || "")}`;
+        const selected = matches[active]?.choice;
+        const summary = picked.size > 0 ? `${picked.size} selected` : selected?.name || "";
+        return `${prefix} ${cfg.message} ${pc.cyan(summary)}`;
+      }
+
+      const count = pc.dim(`${matches.length}/${selectableChoices.length}`);
+      let list = matches.length > 0 ? page : pc.dim("  No matches");
+
+      const highlighted = matches[active]?.choice;
+      if (cfg.preview && showPreview && highlighted) {
+        const { side, width } = paneWidth(listWidth, process.stdout.columns || 80);
+        let cached = paneCache.current.get(highlighted);
+        if (!cached || cached.width !== width) {
+          cached = { width, text: cfg.preview(highlighted.value, width) };
+          paneCache.current.set(highlighted, cached);
+        }
+        list = withPane(list, cached.text, side, listWidth);
+      }
+
+      if (typing) {
+        const hint = pc.dim("(type to filter, ↑/↓, enter to keep, esc to clear)");
+        // Terminal cursor stays at the end of the query line
+        return [`${prefix} ${cfg.message} ${hint}\n${count} ${pc.cyan("/")}${query}`, list];
       }
 
-      const hint = pc.dim("(j/k, enter, i=info, esc)");
-      return `${prefix} ${cfg.message} ${hint}\n${page}`;
+      const escHint = query ? "esc=clear filter" : picked.size > 0 ? "esc=clear selection" : "esc";
+      const multiHint = cfg.multi ? "space=toggle, *=all, " : "";
+      const hint = pc.dim(`(j/k, ${multiHint}enter, /=search, ?=help, ${escHint})`);
+      const selection = picked.size > 0 ? ` ${pc.green(`${picked.size} selected`)}` : "";
+      const filter = query ? `\n${count} ${pc.cyan("/")}${query}` : "";
+      const noticeLine = notice ? `\n${notice}` : "";
+      return `${prefix} ${cfg.message} ${hint}${selection}${filter}${noticeLine}\n${list}`;
     }
   )(config);
 }